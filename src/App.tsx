@@ -1,38 +1,75 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
 import './App.css'
-
-const INCREMENTS = [
-  { label: 'A', value: 1 },
-  { label: 'B', value: 2 },
-  { label: 'C', value: 3 },
-  { label: 'D', value: 5 },
-  { label: 'E', value: 10 },
-  { label: 'F', value: 15 },
-]
-
-const TIME_SIGNATURES = [
-  { label: '4/4', beats: 4 },
-  { label: '3/4', beats: 3 },
-  { label: '6/8', beats: 6 },
-]
-
-const SUBDIVISIONS = [
-  { label: '1/4', perBeat: 1 },   // quarter notes (no subdivision)
-  { label: '1/8', perBeat: 2 },   // 8th notes
-  { label: 'Trip', perBeat: 3 },  // triplets
-  { label: '1/16', perBeat: 4 },  // 16th notes
-]
-
-const MAX_BPM = 300
-const DEFAULT_BPM = 60
-const BUMP_INTERVALS = [
-  { label: '5s', value: 5 },
-  { label: '10s', value: 10 },
-  { label: '15s', value: 15 },
-  { label: '20s', value: 20 },
-  { label: '30s', value: 30 },
-  { label: '60s', value: 60 },
-]
+import {
+  INCREMENTS,
+  TIME_SIGNATURES,
+  SUBDIVISIONS,
+  MAX_BPM,
+  DEFAULT_BPM,
+  BUMP_INTERVALS,
+  BAR_INTERVALS,
+  COUNT_IN_BARS,
+  RAMP_DURATIONS,
+  TEMPO_MODES,
+  SAWTOOTH_PATTERNS,
+  GAP_PATTERNS,
+  POLYRHYTHMS,
+  SWING_AMOUNTS,
+  settingsEqual,
+  describeSettings,
+  clampBpm,
+  settledTarget,
+  toEngineSettings,
+  type PracticeSettings,
+} from './settings'
+import {
+  createTempoEngine, combineGates, type IntervalUnit, type ClickSink, type TempoEngineEvents, type EngineSegment,
+} from './engine/tempoEngine'
+import { parseMeter, formatMeter, groupStarts } from './engine/meter'
+import { parseAccents, formatAccents, accentAt, withAccent, nextAccentLevel } from './engine/accents'
+import { polyPositions } from './engine/polyrhythm'
+import type { RampCurve } from './engine/tempoShapes'
+import { usePersistentState, isIndexOf, isBoolean } from './hooks/usePersistentState'
+import { loadHistory, appendSession, clearHistory } from './history'
+import HistoryPanel from './components/HistoryPanel'
+import PresetsPanel from './components/PresetsPanel'
+import ControlsPanel from './components/ControlsPanel'
+import ExportPanel from './components/ExportPanel'
+import RoutinesPanel from './components/RoutinesPanel'
+import TimingStrip from './components/TimingStrip'
+import EarnStrip from './components/EarnStrip'
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import { useMidiControl } from './hooks/useMidiControl'
+import { useMediaSession } from './hooks/useMediaSession'
+import { useWakeLock } from './hooks/useWakeLock'
+import { useMicTiming } from './hooks/useMicTiming'
+import { useEarnBump } from './hooks/useEarnBump'
+import { loadPresets, savePresets, upsertPreset, exportPresets, importPresets, type Preset } from './presets'
+import { loadRoutines, saveRoutines, toEngineSegments, type Routine } from './routines'
+import { downloadFile } from './download'
+import { buildShareUrl, readShareParams, clearShareParams } from './shareUrl'
+import { addTap, tapBpm } from './tapTempo'
+import { buildTimeline, type SessionEnd } from './engine/timeline'
+import { renderTimelineAudio } from './audio/renderSession'
+import { encodeWav } from './audio/wav'
+import { tempoMapCsv } from './tempoMap'
+import { buildMidiFile } from './midiFile'
+import { createAudioContextClock } from './audio/audioClock'
+import { createKitPlayer, SOUND_KITS, LAYER_SOUNDS, LAYER_VOLUMES } from './audio/soundKits'
+import { createVoiceCounter } from './audio/voiceCount'
+import { createBackgroundAudio } from './audio/backgroundAudio'
+
+const isString = (value: unknown) => typeof value === 'string'
+const isMeterText = (value: unknown) => typeof value === 'string' && parseMeter(value) !== null
+const isIntervalUnit = (value: unknown) => value === 'seconds' || value === 'bars'
+const isRampCurve = (value: unknown) => value === 'linear' || value === 'exponential'
+
+const MAX_PENDING_BEATS = 64
+
+const NO_MANUAL_CONTROL = { held: false, holdPending: false, bumpPending: false, stepBackPending: false }
+
+// Settings from a shared link, read once on load
+const SHARED_SETTINGS = readShareParams(window.location.search)
 
 // Generate a smooth ECG PQRST waveform cycle (normalized -1 to 1)
 function generateECGCycle(numPoints: number): number[] {
@@ -108,49 +145,147 @@ function sampleECGWithVariation(t: number, v: BeatVariation): number {
 }
 
 function App() {
-  const [startBpmInput, setStartBpmInput] = useState(String(DEFAULT_BPM))
+  const shared = SHARED_SETTINGS ?? undefined
+  const [startBpmInput, setStartBpmInput] = usePersistentState(
+    'startBpm', String(DEFAULT_BPM), isString, shared && String(shared.startBpm),
+  )
   const startBpm = parseInt(startBpmInput, 10) || DEFAULT_BPM
-  const [selectedIncrement, setSelectedIncrement] = useState(3) // default +5
-  const [selectedTimeSig, setSelectedTimeSig] = useState(0) // default 4/4
-  const [selectedSubdiv, setSelectedSubdiv] = useState(0)   // default quarter
-  const [selectedInterval, setSelectedInterval] = useState(1) // default 10s
+  const [selectedIncrement, setSelectedIncrement] = usePersistentState(
+    'increment', 3, isIndexOf(INCREMENTS), shared?.increment,
+  ) // default +5
+  const [meterText, setMeterText] = usePersistentState(
+    'meter', '4/4', isMeterText, shared?.meter,
+  ) // default 4/4
+  const meter = useMemo(() => parseMeter(meterText) ?? parseMeter('4/4')!, [meterText])
+  const [selectedSubdiv, setSelectedSubdiv] = usePersistentState(
+    'subdiv', 0, isIndexOf(SUBDIVISIONS), shared?.subdiv,
+  ) // default quarter
+  const [selectedSwing, setSelectedSwing] = usePersistentState(
+    'swing', 0, isIndexOf(SWING_AMOUNTS), shared?.swing,
+  ) // default straight
+  const [selectedInterval, setSelectedInterval] = usePersistentState(
+    'interval', 1, isIndexOf(BUMP_INTERVALS), shared?.interval,
+  ) // default 10s
+  const [selectedBarInterval, setSelectedBarInterval] = usePersistentState(
+    'barInterval', 2, isIndexOf(BAR_INTERVALS), shared?.barInterval,
+  ) // default 4 bars
+  const [intervalUnit, setIntervalUnit] = usePersistentState<IntervalUnit>(
+    'intervalUnit', 'seconds', isIntervalUnit, shared?.intervalUnit,
+  )
+  const [selectedMode, setSelectedMode] = usePersistentState(
+    'mode', 0, isIndexOf(TEMPO_MODES), shared?.mode,
+  ) // default ramp up
+  const [targetBpmInput, setTargetBpmInput] = usePersistentState(
+    'targetBpm', '', isString, shared && (shared.targetBpm === null ? '' : String(shared.targetBpm)),
+  ) // empty = no ceiling/floor
+  const targetBpm = targetBpmInput === '' ? null : parseInt(targetBpmInput, 10) || null
+  const [selectedPattern, setSelectedPattern] = usePersistentState(
+    'pattern', 1, isIndexOf(SAWTOOTH_PATTERNS), shared?.pattern,
+  ) // default climb 3, drop 1
+  const [selectedRampDuration, setSelectedRampDuration] = usePersistentState(
+    'rampDuration', 2, isIndexOf(RAMP_DURATIONS), shared?.rampDuration,
+  ) // default 5 minutes
+  const [rampCurve, setRampCurve] = usePersistentState<RampCurve>(
+    'rampCurve', 'linear', isRampCurve, shared?.rampCurve,
+  )
+  const [accentText, setAccentText] = usePersistentState('accents', '', isString, shared?.accents)
+  const accentGrid = useMemo(() => parseAccents(accentText), [accentText])
+  const [selectedGaps, setSelectedGaps] = usePersistentState(
+    'gaps', 0, isIndexOf(GAP_PATTERNS), shared?.gaps,
+  ) // default off
+  const [selectedPoly, setSelectedPoly] = usePersistentState(
+    'poly', 0, isIndexOf(POLYRHYTHMS), shared?.poly,
+  ) // default off
+  const [selectedKit, setSelectedKit] = usePersistentState('kit', 0, isIndexOf(SOUND_KITS)) // default beep
+  const [layerSound, setLayerSound] = usePersistentState('layerSound', 0, isIndexOf(LAYER_SOUNDS)) // default bell
+  const [layerVolume, setLayerVolume] = usePersistentState('layerVolume', 2, isIndexOf(LAYER_VOLUMES)) // default 75%
+  const layerVoice = useMemo(() => ({ sound: layerSound, volume: layerVolume }), [layerSound, layerVolume])
+  const [selectedCountIn, setSelectedCountIn] = usePersistentState('countIn', 0, isIndexOf(COUNT_IN_BARS))
+  const [voiceCount, setVoiceCount] = usePersistentState('voiceCount', false, isBoolean)
+  const [keepAwake, setKeepAwake] = usePersistentState('keepAwake', true, isBoolean)
+  const [history, setHistory] = useState(loadHistory)
+  const [showHistory, setShowHistory] = useState(false)
+  const [presets, setPresets] = useState(loadPresets)
+  const [showPresets, setShowPresets] = useState(false)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [showControls, setShowControls] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [routines, setRoutines] = useState(loadRoutines)
+  const [showRoutines, setShowRoutines] = useState(false)
+  const [routineId, setRoutineId] = useState<string | null>(null) // routine the start button plays
+  const [routineStatus, setRoutineStatus] = useState({ segment: 0, progress: 0 }) // progress within the segment
+  const [shownSegment, setShownSegment] = useState(0) // routine segment on the display, once its downbeat sounds
+  const activeRoutine = routines.find((r) => r.id === routineId && r.segments.length > 0) ?? null
+
+  useEffect(() => {
+    if (SHARED_SETTINGS) clearShareParams()
+  }, [])
+
+  const currentSettings: PracticeSettings = useMemo(() => ({
+    startBpm,
+    increment: selectedIncrement,
+    interval: selectedInterval,
+    barInterval: selectedBarInterval,
+    intervalUnit,
+    meter: meterText,
+    subdiv: selectedSubdiv,
+    swing: selectedSwing,
+    mode: selectedMode,
+    targetBpm,
+    pattern: selectedPattern,
+    accents: accentText,
+    rampDuration: selectedRampDuration,
+    rampCurve,
+    gaps: selectedGaps,
+    poly: selectedPoly,
+  }), [
+    startBpm, selectedIncrement, selectedInterval, selectedBarInterval, intervalUnit, meterText, selectedSubdiv,
+    selectedMode, targetBpm, selectedPattern, accentText, selectedRampDuration, rampCurve, selectedGaps,
+    selectedPoly, selectedSwing,
+  ])
+  // The preset whose settings are dialed in right now, if any
+  const activePreset = presets.find((p) => settingsEqual(p.settings, currentSettings)) ?? null
+  const exerciseName = activePreset?.name ?? describeSettings(currentSettings)
+  const [nextDelta, setNextDelta] = useState(0) // BPM change of the next bump, 0 = holding
   const [countdown, setCountdown] = useState(0) // seconds until next BPM bump
   const [progress, setProgress] = useState(0) // 0 to 1, fraction of interval elapsed
   const [isPlaying, setIsPlaying] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
-  const [currentBpm, setCurrentBpm] = useState(DEFAULT_BPM)
+  const [currentBpm, setCurrentBpm] = useState(startBpm)
   const [currentBeat, setCurrentBeat] = useState(-1)
+  const [currentPolyNote, setCurrentPolyNote] = useState(-1) // index in the bar of the last cross-rhythm note
   const [_totalMeasures, setTotalMeasures] = useState(0)
   const [elapsedTime, setElapsedTime] = useState(0) // seconds since start
+  const [countingIn, setCountingIn] = useState(false)
+  const [silentBar, setSilentBar] = useState(false) // a gap bar is playing, its clicks dropped
+  const [manual, setManual] = useState(NO_MANUAL_CONTROL) // hold / bump / step back state
+  const earn = useEarnBump() // bumps that wait for a clean rating
+  const resetEarn = earn.reset
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
 
   const audioCtxRef = useRef<AudioContext | null>(null)
-  const timerRef = useRef<number | null>(null)
-  const nextNoteTimeRef = useRef(0)
-  const currentBeatRef = useRef(0)
-  const totalMeasuresRef = useRef(0)
-  const currentBpmRef = useRef(DEFAULT_BPM)
+  const clickPlayerRef = useRef<ClickSink | null>(null) // current kit, bound to audioCtxRef
+  const pendingBeatsRef = useRef<TempoEngineEvents['beat'][]>([]) // scheduled, not yet sounded
+  const pendingPolyRef = useRef<TempoEngineEvents['poly'][]>([]) // ... and the cross-rhythm notes
+  const voiceCounterRef = useRef<ReturnType<typeof createVoiceCounter> | null>(null) // set when voice count is on
   const isPlayingRef = useRef(false)
   const isPausedRef = useRef(false)
-  const incrementRef = useRef(INCREMENTS[3].value)
-  const beatsPerMeasureRef = useRef(TIME_SIGNATURES[0].beats)
-  const subdivRef = useRef(SUBDIVISIONS[0].perBeat)
-  const currentSubRef = useRef(0) // subdivision position within a beat
-  const bumpIntervalRef = useRef(BUMP_INTERVALS[1].value) // 10s default
-  // Time-based BPM increment tracking
-  const lastBpmBumpTimeRef = useRef(0) // AudioContext time of last BPM bump
-  const totalPausedDurationRef = useRef(0) // accumulated paused time
-  const pauseStartTimeRef = useRef(0) // when the current pause started
-  const bpmBumpReadyRef = useRef(false) // true once interval elapsed, waiting for downbeat
-  const countdownRef = useRef(0)
-  const progressRef = useRef(0)
   const elapsedTimerRef = useRef<number | null>(null) // interval for elapsed display
+  const sessionStartedAtRef = useRef(0) // wall-clock start, for the history record
+  const tapsRef = useRef<number[]>([]) // recent tap-tempo times, ms
+  const routineSegmentsRef = useRef<EngineSegment[] | null>(null) // the routine playing, if any
+  const showSegmentRef = useRef<(index: number) => void>(() => {}) // puts a segment on the display
+  const finishRoutineRef = useRef<() => void>(() => {})
+
+  // Silent media playback that keeps a locked phone from freezing the session
+  const [backgroundAudio] = useState(createBackgroundAudio)
 
-  useEffect(() => { incrementRef.current = INCREMENTS[selectedIncrement].value }, [selectedIncrement])
-  useEffect(() => { beatsPerMeasureRef.current = TIME_SIGNATURES[selectedTimeSig].beats }, [selectedTimeSig])
-  useEffect(() => { subdivRef.current = SUBDIVISIONS[selectedSubdiv].perBeat }, [selectedSubdiv])
-  useEffect(() => { bumpIntervalRef.current = BUMP_INTERVALS[selectedInterval].value }, [selectedInterval])
+  // Headless scheduler; the AudioContext only supplies its clock and click output
+  const [engine] = useState(() => createTempoEngine({
+    clock: createAudioContextClock(() => audioCtxRef.current),
+    onClick: (time, clickType, level) => clickPlayerRef.current?.(time, clickType, level),
+  }))
 
   // ECG canvas animation refs
   const wavePhaseRef = useRef(0)
@@ -384,6 +519,22 @@ function App() {
   const animateWaveform = useCallback(() => {
     if (!isPlayingRef.current || isPausedRef.current) return
 
+    // Beat indicators follow the engine, each applied once its beat sounds
+    const audioCtx = audioCtxRef.current
+    const queue = pendingBeatsRef.current
+    let due: TempoEngineEvents['beat'] | undefined
+    while (audioCtx && queue.length > 0 && queue[0].time <= audioCtx.currentTime) due = queue.shift()
+    if (due) {
+      setCurrentBeat(due.beat)
+      setCurrentBpm(Math.round(due.bpm))
+      setTotalMeasures(due.bar)
+      setSilentBar(due.silent)
+    }
+    const polyQueue = pendingPolyRef.current
+    let duePoly: TempoEngineEvents['poly'] | undefined
+    while (audioCtx && polyQueue.length > 0 && polyQueue[0].time <= audioCtx.currentTime) duePoly = polyQueue.shift()
+    if (duePoly) setCurrentPolyNote(duePoly.index)
+
     const now = performance.now()
     const elapsed = now - lastFrameTimeRef.current
     lastFrameTimeRef.current = now
@@ -394,13 +545,13 @@ function App() {
     if (canvas) {
       const dpr = window.devicePixelRatio || 1
       const totalPoints = Math.floor(canvas.getBoundingClientRect().width * dpr)
-      const pixelsPerMs = (totalPoints * currentBpmRef.current) / 60000
+      const pixelsPerMs = (totalPoints * engine.getSnapshot().bpm) / 60000
       wavePhaseRef.current += elapsed * pixelsPerMs
     }
 
     drawECG()
     animFrameRef.current = requestAnimationFrame(animateWaveform)
-  }, [drawECG])
+  }, [drawECG, engine])
 
   const startWaveform = useCallback(() => {
     // Cancel any fade-out in progress
@@ -452,142 +603,110 @@ function App() {
     return () => window.removeEventListener('resize', handleResize)
   }, [drawECG])
 
-  const playClick = useCallback((time: number, clickType: 'downbeat' | 'beat' | 'sub') => {
-    const ctx = audioCtxRef.current
-    if (!ctx) return
-    const osc = ctx.createOscillator()
-    const gain = ctx.createGain()
-    osc.connect(gain)
-    gain.connect(ctx.destination)
-
-    if (clickType === 'downbeat') {
-      osc.frequency.value = 1000
-      gain.gain.setValueAtTime(0.8, time)
-    } else if (clickType === 'beat') {
-      osc.frequency.value = 700
-      gain.gain.setValueAtTime(0.8, time)
-    } else {
-      osc.frequency.value = 500
-      gain.gain.setValueAtTime(0.4, time)
-    }
-
-    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.08)
-    osc.start(time)
-    osc.stop(time + 0.08)
-  }, [])
+  // Accent edits apply to a running session from the next tick
+  useEffect(() => { engine.setAccents(accentGrid) }, [engine, accentGrid])
 
-  const scheduleNote = useCallback(() => {
-    const ctx = audioCtxRef.current
-    if (!ctx || isPausedRef.current) return
-
-    const lookahead = 0.1
-    const scheduleInterval = 25
-
-    while (nextNoteTimeRef.current < ctx.currentTime + lookahead) {
-      const beat = currentBeatRef.current
-      const sub = currentSubRef.current
-      const isMainBeat = sub === 0
-      const isDownbeat = beat === 0 && isMainBeat
-
-      // Mark bump as ready once the interval of active playing time has elapsed
-      const activeTime = nextNoteTimeRef.current - lastBpmBumpTimeRef.current - totalPausedDurationRef.current
-      if (activeTime >= bumpIntervalRef.current) {
-        bpmBumpReadyRef.current = true
-      }
+  // Beat events arrive a lookahead early; queue them for the animation frame
+  useEffect(() => {
+    return engine.on('beat', (event) => {
+      const queue = pendingBeatsRef.current
+      queue.push(event)
+      // No frames run in a background tab; only the latest beats matter
+      if (queue.length > MAX_PENDING_BEATS) queue.shift()
+    })
+  }, [engine])
 
-      // Apply BPM bump on the downbeat of any bar (after interval elapsed)
-      if (bpmBumpReadyRef.current && isDownbeat && totalMeasuresRef.current > 0) {
-        const newBpm = Math.min(currentBpmRef.current + incrementRef.current, MAX_BPM)
-        currentBpmRef.current = newBpm
-        bpmBumpReadyRef.current = false
-        lastBpmBumpTimeRef.current = nextNoteTimeRef.current
-        totalPausedDurationRef.current = 0
-      }
+  useEffect(() => {
+    return engine.on('poly', (event) => {
+      const queue = pendingPolyRef.current
+      queue.push(event)
+      if (queue.length > MAX_PENDING_BEATS) queue.shift()
+    })
+  }, [engine])
+
+  // Spoken count rides the same ticks as the clicks
+  useEffect(() => {
+    return engine.on('tick', (tick) => voiceCounterRef.current?.(tick))
+  }, [engine])
 
-      // Compute progress for UI
-      const timeSinceBump = nextNoteTimeRef.current - lastBpmBumpTimeRef.current - totalPausedDurationRef.current
-      if (bpmBumpReadyRef.current) {
-        countdownRef.current = 0
-        progressRef.current = 1
-      } else {
-        countdownRef.current = Math.max(0, Math.ceil(bumpIntervalRef.current - timeSinceBump))
-        progressRef.current = Math.min(1, timeSinceBump / bumpIntervalRef.current)
+  // Routine hand-overs. The voice follows the new meter from its first tick;
+  // the display switches once that downbeat sounds, and the session ends
+  // (and is recorded) when the last segment does.
+  useEffect(() => {
+    const untilHeard = (time: number) =>
+      Math.max(0, (time - (audioCtxRef.current?.currentTime ?? time)) * 1000)
+    const offSegment = engine.on('segment', ({ time, index }) => {
+      const ctx = audioCtxRef.current
+      const next = routineSegmentsRef.current?.[index]?.settings
+      if (ctx && next && voiceCounterRef.current) {
+        voiceCounterRef.current = createVoiceCounter(ctx, next.meter, next.subdivision)
       }
+      window.setTimeout(() => showSegmentRef.current(index), untilHeard(time))
+    })
+    const offComplete = engine.on('complete', ({ time }) => {
+      window.setTimeout(() => finishRoutineRef.current(), untilHeard(time))
+    })
+    return () => {
+      offSegment()
+      offComplete()
+    }
+  }, [engine])
 
-      // Determine click type
-      const clickType: 'downbeat' | 'beat' | 'sub' = isDownbeat
-        ? 'downbeat'
-        : isMainBeat
-          ? 'beat'
-          : 'sub'
-      playClick(nextNoteTimeRef.current, clickType)
-
-      const delay = Math.max(0, (nextNoteTimeRef.current - ctx.currentTime) * 1000)
-
-      // Only update UI beat indicators on main beats (not subdivisions)
-      if (isMainBeat) {
-        const uiBpm = currentBpmRef.current
-        const uiTotal = totalMeasuresRef.current
-        const uiBeat = beat
-
-        setTimeout(() => {
-          if (!isPlayingRef.current) return
-          setCurrentBeat(uiBeat)
-          setCurrentBpm(uiBpm)
-          setTotalMeasures(uiTotal)
-        }, delay)
-      }
+  const syncManualControl = useCallback(() => {
+    const { held, holdPending, bumpPending, stepBackPending } = engine.getSnapshot()
+    setManual({ held, holdPending, bumpPending, stepBackPending })
+  }, [engine])
 
-      // Advance subdivision
-      currentSubRef.current += 1
-      if (currentSubRef.current >= subdivRef.current) {
-        currentSubRef.current = 0
-        // Advance beat
-        const nextBeat = beat + 1
-        if (nextBeat >= beatsPerMeasureRef.current) {
-          currentBeatRef.current = 0
-          totalMeasuresRef.current += 1
-        } else {
-          currentBeatRef.current = nextBeat
-        }
+  const startElapsedTimer = useCallback(() => {
+    if (elapsedTimerRef.current) clearInterval(elapsedTimerRef.current)
+    elapsedTimerRef.current = window.setInterval(() => {
+      if (!isPlayingRef.current || isPausedRef.current) return
+      const snapshot = engine.getSnapshot()
+      setElapsedTime(Math.floor(engine.getElapsed()))
+      setCountingIn(snapshot.countingIn)
+      setCountdown(snapshot.countdown)
+      setProgress(snapshot.progress)
+      setNextDelta(snapshot.nextDelta)
+      // No frames drain the beat queue while hidden; keep the BPM current for the lock screen
+      if (document.hidden) setCurrentBpm(Math.round(snapshot.bpm))
+      if (routineSegmentsRef.current) {
+        setRoutineStatus({ segment: snapshot.segment, progress: snapshot.segmentProgress })
       }
-
-      const secondsPerBeat = 60.0 / currentBpmRef.current
-      const secondsPerTick = secondsPerBeat / subdivRef.current
-      nextNoteTimeRef.current += secondsPerTick
-    }
-
-    timerRef.current = window.setTimeout(scheduleNote, scheduleInterval)
-  }, [playClick])
+      syncManualControl()
+    }, 250)
+  }, [engine, syncManualControl])
 
   const start = useCallback(() => {
     if (isPlaying && !isPaused) return
 
+    backgroundAudio.play()
     if (isPaused && audioCtxRef.current) {
       audioCtxRef.current.resume()
       isPausedRef.current = false
       setIsPaused(false)
-      // Account for paused duration
-      totalPausedDurationRef.current += audioCtxRef.current.currentTime - pauseStartTimeRef.current
-      nextNoteTimeRef.current = audioCtxRef.current.currentTime
       lastFrameTimeRef.current = performance.now()
+      engine.resume()
       // Restart elapsed timer + countdown
-      elapsedTimerRef.current = window.setInterval(() => {
-        if (!isPlayingRef.current || isPausedRef.current) return
-        const ctx = audioCtxRef.current
-        if (!ctx) return
-        const active = ctx.currentTime - totalPausedDurationRef.current
-        setElapsedTime(Math.floor(active))
-        setCountdown(countdownRef.current)
-        setProgress(progressRef.current)
-      }, 250)
-      scheduleNote()
+      startElapsedTimer()
       animateWaveform()
       return
     }
 
+    const countInBars = COUNT_IN_BARS[selectedCountIn].value
+    const segments = activeRoutine ? toEngineSegments(activeRoutine, countInBars) : null
+    const first = segments?.[0].settings ?? toEngineSettings(currentSettings, countInBars)
+    routineSegmentsRef.current = segments
+    if (segments) {
+      showSegmentRef.current(0)
+      setRoutineStatus({ segment: 0, progress: 0 })
+    }
+
     const ctx = new AudioContext()
     audioCtxRef.current = ctx
+    clickPlayerRef.current = createKitPlayer(ctx, selectedKit, layerVoice)
+    voiceCounterRef.current = voiceCount
+      ? createVoiceCounter(ctx, first.meter, first.subdivision)
+      : null
 
     // Mobile browsers (especially iOS) may start AudioContext in suspended state.
     // Must resume inside user gesture handler to unlock audio.
@@ -608,25 +727,17 @@ function App() {
       // Ignore — non-critical
     }
 
-    const bpm = Math.min(Math.max(startBpm, 1), MAX_BPM)
-    currentBeatRef.current = 0
-    currentSubRef.current = 0
-    totalMeasuresRef.current = 0
-    currentBpmRef.current = bpm
-    nextNoteTimeRef.current = ctx.currentTime
-    lastBpmBumpTimeRef.current = ctx.currentTime
-    totalPausedDurationRef.current = 0
-    pauseStartTimeRef.current = 0
-    bpmBumpReadyRef.current = false
-
-    countdownRef.current = bumpIntervalRef.current
-    progressRef.current = 0
+    const bpm = Math.min(Math.max(first.startBpm, 1), MAX_BPM)
+    pendingBeatsRef.current = []
+    pendingPolyRef.current = []
     setCurrentBeat(-1)
+    setCurrentPolyNote(-1)
     setTotalMeasures(0)
     setElapsedTime(0)
-    setCountdown(bumpIntervalRef.current)
     setProgress(0)
     setCurrentBpm(bpm)
+    setCountingIn(countInBars > 0)
+    setSilentBar(false)
 
     isPlayingRef.current = true
     isPausedRef.current = false
@@ -634,32 +745,25 @@ function App() {
     setIsPaused(false)
 
     // Start elapsed time display timer + countdown
-    if (elapsedTimerRef.current) clearInterval(elapsedTimerRef.current)
-    elapsedTimerRef.current = window.setInterval(() => {
-      if (!isPlayingRef.current || isPausedRef.current) return
-      const actx = audioCtxRef.current
-      if (!actx) return
-      const active = actx.currentTime - totalPausedDurationRef.current
-      setElapsedTime(Math.floor(active))
-      setCountdown(countdownRef.current)
-      setProgress(progressRef.current)
-    }, 250)
-
-    scheduleNote()
+    startElapsedTimer()
+    sessionStartedAtRef.current = Date.now()
+    resetEarn()
+
+    if (segments) engine.startRoutine(segments)
+    else engine.start(first)
+    setNextDelta(engine.getSnapshot().nextDelta)
+    setCountdown(engine.getSnapshot().countdown)
     startWaveform()
-  }, [isPlaying, isPaused, startBpm, scheduleNote, startWaveform, animateWaveform])
+  }, [
+    isPlaying, isPaused, currentSettings, activeRoutine, selectedKit, layerVoice, selectedCountIn, voiceCount,
+    engine, backgroundAudio, startElapsedTimer, startWaveform, animateWaveform, resetEarn,
+  ])
 
   const pause = useCallback(() => {
     if (!isPlaying || isPaused) return
     isPausedRef.current = true
     setIsPaused(true)
-    if (audioCtxRef.current) {
-      pauseStartTimeRef.current = audioCtxRef.current.currentTime
-    }
-    if (timerRef.current) {
-      clearTimeout(timerRef.current)
-      timerRef.current = null
-    }
+    engine.pause()
     if (elapsedTimerRef.current) {
       clearInterval(elapsedTimerRef.current)
       elapsedTimerRef.current = null
@@ -668,17 +772,38 @@ function App() {
     if (audioCtxRef.current) {
       audioCtxRef.current.suspend()
     }
-  }, [isPlaying, isPaused, stopWaveform])
+    backgroundAudio.pause()
+  }, [isPlaying, isPaused, engine, backgroundAudio, stopWaveform])
 
   const stop = useCallback(() => {
+    // Record the session before the engine resets its counters
+    const snapshot = engine.getSnapshot()
+    if (snapshot.isRunning && snapshot.bar > 0) {
+      // A routine is filed under its name, with the setup of its first segment
+      const played = activeRoutine?.segments[0].settings ?? currentSettings
+      const first = toEngineSettings(played)
+      setHistory(appendSession({
+        startedAt: sessionStartedAtRef.current,
+        exercise: activeRoutine?.name ?? exerciseName,
+        startBpm: Math.min(Math.max(first.startBpm, 1), MAX_BPM),
+        peakBpm: Math.round(snapshot.peakBpm),
+        increment: first.increment,
+        interval: first.bumpInterval,
+        intervalUnit: first.intervalUnit,
+        timeSignature: played.meter,
+        subdivision: SUBDIVISIONS[played.subdiv].label,
+        mode: first.shape.kind,
+        duration: Math.round(engine.getElapsed()),
+        bars: snapshot.bar,
+        ...(earn.log.length > 0 && { tempoLog: earn.log }),
+      }))
+    }
+
     isPlayingRef.current = false
     isPausedRef.current = false
     setIsPlaying(false)
     setIsPaused(false)
-    if (timerRef.current) {
-      clearTimeout(timerRef.current)
-      timerRef.current = null
-    }
+    engine.stop()
     if (elapsedTimerRef.current) {
       clearInterval(elapsedTimerRef.current)
       elapsedTimerRef.current = null
@@ -687,31 +812,230 @@ function App() {
       audioCtxRef.current.close()
       audioCtxRef.current = null
     }
+    backgroundAudio.pause()
+    clickPlayerRef.current = null
+    voiceCounterRef.current = null
     stopWaveform()
+    pendingBeatsRef.current = []
+    pendingPolyRef.current = []
     setCurrentBeat(-1)
+    setCurrentPolyNote(-1)
     setTotalMeasures(0)
     setElapsedTime(0)
     setCountdown(0)
     setProgress(0)
+    setCountingIn(false)
+    setManual(NO_MANUAL_CONTROL)
+    routineSegmentsRef.current = null
+    setShownSegment(0)
     const bpmVal = parseInt(startBpmInput, 10) || DEFAULT_BPM
-    setCurrentBpm(bpmVal)
-  }, [startBpmInput, stopWaveform])
+    setCurrentBpm(activeRoutine?.segments[0].settings.startBpm ?? bpmVal)
+  }, [
+    startBpmInput, currentSettings, exerciseName, activeRoutine, engine, backgroundAudio, stopWaveform, earn.log,
+  ])
+
+  // The OS may suspend the AudioContext while the page is hidden (a call, a
+  // locked phone without background audio); pick the session back up on return
+  useEffect(() => {
+    const onVisible = () => {
+      const ctx = audioCtxRef.current
+      if (document.visibilityState !== 'visible' || !ctx || !isPlayingRef.current || isPausedRef.current) return
+      if (ctx.state !== 'running') ctx.resume()
+    }
+    document.addEventListener('visibilitychange', onVisible)
+    return () => document.removeEventListener('visibilitychange', onVisible)
+  }, [])
 
   useEffect(() => {
     return () => {
-      if (timerRef.current) clearTimeout(timerRef.current)
+      engine.stop()
       if (elapsedTimerRef.current) clearInterval(elapsedTimerRef.current)
       if (animFrameRef.current) cancelAnimationFrame(animFrameRef.current)
       if (fadeOutFrameRef.current) cancelAnimationFrame(fadeOutFrameRef.current)
       if (audioCtxRef.current) audioCtxRef.current.close()
     }
-  }, [])
+  }, [engine])
 
-  const currentIncrement = INCREMENTS[selectedIncrement].value
+  const playPause = () => {
+    if (isPlaying && !isPaused) pause()
+    else start()
+  }
+
+  // Start BPM from tapping along with a recording or a count-off
+  const tapTempo = () => {
+    if (isPlaying) return
+    tapsRef.current = addTap(tapsRef.current, performance.now())
+    const bpm = tapBpm(tapsRef.current)
+    if (bpm === null) return
+    const next = clampBpm(bpm)
+    setStartBpmInput(String(next))
+    setCurrentBpm(next)
+  }
+
+  // Manual tempo control; the engine applies each on the next downbeat
+  const holdOn = manual.held !== manual.holdPending // requested state
+  const bumpNow = () => {
+    engine.bumpNow()
+    syncManualControl()
+  }
+  const stepBack = () => {
+    engine.stepBack()
+    syncManualControl()
+  }
+  const toggleHold = () => {
+    engine.setHold(!holdOn)
+    syncManualControl()
+  }
+
+  // Hands-free control: keyboard, and a MIDI pedal or controller
+  useKeyboardShortcuts({
+    playPause,
+    stop,
+    nudgeBpm: (delta) => {
+      if (isPlaying) return
+      const next = Math.min(Math.max(startBpm + delta, 1), MAX_BPM)
+      setStartBpmInput(String(next))
+      setCurrentBpm(next)
+    },
+    bumpNow,
+    stepBack,
+    toggleHold,
+    tapTempo,
+    confirmClean: () => { if (isPlaying && earn.enabled) earn.confirm() },
+  }, !showPresets && !showHistory && !showControls && !showExport && !showRoutines)
+
+  // Timing analysis from the mic, scored against the scheduled ticks
+  const mic = useMicTiming(engine, () => audioCtxRef.current)
+
+  // The mic and the self-rating each get a say over automatic bumps
+  useEffect(() => {
+    engine.setBumpGate(combineGates([mic.bumpGate, earn.bumpGate]))
+    return () => engine.setBumpGate(null)
+  }, [engine, mic.bumpGate, earn.bumpGate])
+
+  const midi = useMidiControl((action) => {
+    if (action === 'playPause') playPause()
+    else if (action === 'bumpNow') bumpNow()
+    else if (action === 'stepBack') stepBack()
+    else if (action === 'confirmClean') { if (isPlaying && earn.enabled) earn.confirm() }
+    else toggleHold()
+  })
+
+  const applySettings = (next: PracticeSettings) => {
+    setStartBpmInput(String(next.startBpm))
+    setCurrentBpm(next.startBpm)
+    setSelectedIncrement(next.increment)
+    setSelectedInterval(next.interval)
+    setSelectedBarInterval(next.barInterval)
+    setIntervalUnit(next.intervalUnit)
+    setMeterText(next.meter)
+    setSelectedSubdiv(next.subdiv)
+    setSelectedSwing(next.swing)
+    setSelectedMode(next.mode)
+    setTargetBpmInput(next.targetBpm === null ? '' : String(next.targetBpm))
+    setSelectedPattern(next.pattern)
+    setAccentText(next.accents)
+    setSelectedRampDuration(next.rampDuration)
+    setRampCurve(next.rampCurve)
+    setSelectedGaps(next.gaps)
+    setSelectedPoly(next.poly)
+  }
+  const updateRoutines = (next: Routine[]) => {
+    setRoutines(next)
+    saveRoutines(next)
+  }
+
+  const exitRoutine = () => {
+    setRoutineId(null)
+    setCurrentBpm(startBpm)
+  }
+
+  const segmentName = (routine: Routine, index: number) => {
+    const segment = routine.segments[index]
+    return segment.name.trim() || (segment.rest ? 'Rest' : describeSettings(segment.settings))
+  }
+
+  useEffect(() => {
+    showSegmentRef.current = (index) => {
+      const segment = activeRoutine?.segments[index]
+      if (!segment) return
+      setShownSegment(index)
+      setCurrentBpm(segment.settings.startBpm)
+    }
+    finishRoutineRef.current = () => {
+      if (engine.getSnapshot().complete) stop()
+    }
+  })
+
+
+  const copyShareLink = async () => {
+    const url = buildShareUrl(currentSettings, window.location.href)
+    try {
+      await navigator.clipboard.writeText(url)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch {
+      // Clipboard blocked (insecure context, permissions) — let the user copy by hand
+      window.prompt('Copy this link', url)
+    }
+  }
+
+  const updatePresets = (next: Preset[]) => {
+    setPresets(next)
+    savePresets(next)
+  }
+
+  // The screen shows the routine segment on display, if a routine is picked,
+  // and the setup otherwise; the setting controls always edit the setup
+  const shown = activeRoutine?.segments[shownSegment]?.settings ?? currentSettings
+  const shownMeter = parseMeter(shown.meter) ?? meter
+  const shownAccents = activeRoutine ? parseAccents(shown.accents) : accentGrid
+  const shownKind = TEMPO_MODES[shown.mode].kind
+  const shownAccel = shownKind === 'accelerando'
+  const shownInterval = shown.intervalUnit === 'bars'
+    ? BAR_INTERVALS[shown.barInterval].value
+    : BUMP_INTERVALS[shown.interval].value
+  const currentIncrement = INCREMENTS[shown.increment].value
+  const accentBeats = groupStarts(shownMeter)
+  const subdivision = SUBDIVISIONS[shown.subdiv].perBeat
+  const polyrhythm = POLYRHYTHMS[shown.poly].poly
+  const polyNotes = polyrhythm ? polyPositions(polyrhythm, shownMeter.beats) : []
+  const stepSign = shownKind === 'ramp-up' ? '+' : shownKind === 'ramp-down' ? '-' : '±'
+  const rampSeconds = RAMP_DURATIONS[shown.rampDuration].value * 60
+  const modeKind = TEMPO_MODES[selectedMode].kind
+  const isAccel = modeKind === 'accelerando'
+  const isHolding = isPlaying && nextDelta === 0
+  const isHeld = isPlaying && manual.held
+  const nextLabel = isHeld
+    ? 'Held'
+    : isHolding
+      ? 'Hold'
+      : shownAccel
+        ? `Ramp to ${shown.targetBpm ?? MAX_BPM}`
+        : !isPlaying
+          ? `Next ${stepSign}${currentIncrement}`
+          : `Next ${nextDelta > 0 ? '+' : ''}${nextDelta}`
+  const formatInterval = (n: number) => shown.intervalUnit === 'bars' ? `${n} bar${n === 1 ? '' : 's'}` : `${n}s`
+  // Accelerandos count down the whole ramp, so minutes read better
+  const formatCountdown = (n: number) => shownAccel ? formatTime(n) : formatInterval(n)
+  const intervalOptions = intervalUnit === 'bars' ? BAR_INTERVALS : BUMP_INTERVALS
+  const intervalIndex = intervalUnit === 'bars' ? selectedBarInterval : selectedInterval
+  const targetLabel = modeKind === 'ramp-down'
+    ? 'Floor'
+    : modeKind === 'pyramid' ? 'Peak' : isAccel ? 'Target' : 'Ceiling'
+
+  // Offline renders run the same engine on a virtual clock, without count-in.
+  // Only shapes that settle on their target can stop there.
+  const exportTarget = settledTarget(currentSettings)
+  const exportName = `codybpm-${startBpm}-${exerciseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+  const exportSettings = toEngineSettings(currentSettings)
+  const exportTimeline = (end: SessionEnd) => buildTimeline(exportSettings, end)
 
   const getModeText = () => {
     if (!isPlaying) return 'Ready'
     if (isPaused) return 'Paused'
+    if (countingIn) return 'Count-in'
+    if (silentBar) return 'Silent'
     return 'Training'
   }
 
@@ -721,6 +1045,16 @@ function App() {
     return `${m}:${s.toString().padStart(2, '0')}`
   }
 
+  // Lock screen controls and a screen that stays on while training
+  useMediaSession({
+    playing: isPlaying,
+    paused: isPaused,
+    title: `${currentBpm} BPM`,
+    artist: countingIn ? 'Count-in' : isHolding || isHeld ? nextLabel : `${nextLabel} · ${formatCountdown(countdown)}`,
+    album: exerciseName,
+  }, { play: start, pause, stop })
+  useWakeLock(keepAwake && isPlaying)
+
   return (
     <div className="device">
       {/* ECG Monitor */}
@@ -728,20 +1062,72 @@ function App() {
         <canvas ref={canvasRef} className="ecg-canvas" />
       </div>
 
+      {/* Routine: segment playing and how far through the whole routine */}
+      {activeRoutine && (
+        <div className="progress-pane">
+          <div className="progress-label">
+            <span>{activeRoutine.name} · {segmentName(activeRoutine, isPlaying ? routineStatus.segment : 0)}</span>
+            <span>
+              {isPlaying ? routineStatus.segment + 1 : 1}/{activeRoutine.segments.length}
+              {!isPlaying && <button className="routine-exit" onClick={exitRoutine}>×</button>}
+            </span>
+          </div>
+          <div className="progress-track">
+            <div
+              className="progress-fill"
+              style={{
+                width: `${isPlaying
+                  ? ((routineStatus.segment + routineStatus.progress) / activeRoutine.segments.length) * 100
+                  : 0}%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* BPM Increment Progress */}
       <div className="progress-pane">
         <div className="progress-label">
-          <span>Next +{currentIncrement}</span>
-          <span>{isPlaying && !isPaused ? `${countdown}s` : `${BUMP_INTERVALS[selectedInterval].value}s`}</span>
+          <span>{nextLabel}</span>
+          <span>
+            {isHolding
+              ? '--'
+              : isPlaying && !isPaused
+                ? formatCountdown(countdown)
+                : formatCountdown(shownAccel ? rampSeconds : shownInterval)}
+          </span>
         </div>
         <div className="progress-track">
           <div
-            className="progress-fill"
-            style={{ width: `${(isPlaying ? progress : 0) * 100}%` }}
+            className={`progress-fill ${isHeld ? 'held' : ''}`}
+            style={{ width: `${(isPlaying && !isHolding ? progress : 0) * 100}%` }}
           />
         </div>
       </div>
 
+      {mic.status !== 'off' && (
+        <TimingStrip
+          status={mic.status}
+          bars={mic.bars}
+          gate={mic.gate}
+          tolerance={mic.tolerance}
+          lastGate={mic.lastGate}
+          onGateChange={mic.setGate}
+          onToleranceChange={mic.setTolerance}
+        />
+      )}
+
+      {earn.enabled && (
+        <EarnStrip
+          isPlaying={isPlaying}
+          confirmed={earn.confirmed}
+          dropAfter={earn.dropAfter}
+          log={earn.log}
+          onConfirm={earn.confirm}
+          onDropAfterChange={earn.setDropAfter}
+        />
+      )}
+
       {/* Display Screen */}
       <div className={`screen ${isPlaying ? 'playing' : ''} ${isPaused ? 'paused' : ''}`}>
         <div className="screen-header">
@@ -760,19 +1146,50 @@ function App() {
           <div className="bpm-label">BPM</div>
         </div>
 
-        {/* Beat indicators */}
-        <div className="beat-indicators">
-          {Array.from({ length: TIME_SIGNATURES[selectedTimeSig].beats }, (_, i) => (
-            <div
-              key={i}
-              className={`beat-dot ${i === 0 ? 'downbeat' : ''} ${currentBeat === i ? 'active' : ''}`}
-            />
+        {/* Beat indicators, each over its column of tappable accent cells */}
+        <div className={`beat-indicators ${shownMeter.beats > 8 ? 'dense' : ''}`}>
+          {Array.from({ length: shownMeter.beats }, (_, i) => (
+            <div key={i} className={`beat-slot ${i > 0 && accentBeats.includes(i) ? 'group-start' : ''}`}>
+              <div
+                className={[
+                  'beat-dot',
+                  i === 0 ? 'downbeat' : '',
+                  i > 0 && accentBeats.includes(i) ? 'accent' : '',
+                  currentBeat === i ? 'active' : '',
+                ].join(' ')}
+              />
+              <div className="accent-cells">
+                {Array.from({ length: subdivision }, (_, j) => {
+                  const level = accentAt(shownAccents, i, j)
+                  return (
+                    <button
+                      key={j}
+                      className={`accent-cell ${level} ${j > 0 ? 'sub' : ''}`}
+                      title={`Beat ${i + 1}${j > 0 ? ` sub ${j + 1}` : ''}: ${level}`}
+                      disabled={activeRoutine !== null}
+                      onClick={() => setAccentText(formatAccents(
+                        withAccent(accentGrid, meter.beats, subdivision, i, j, nextAccentLevel(level)),
+                      ))}
+                    />
+                  )
+                })}
+              </div>
+            </div>
           ))}
         </div>
 
+        {/* Cross-rhythm layer, one dot per note in the bar */}
+        {polyNotes.length > 0 && (
+          <div className={`poly-indicators ${polyNotes.length > 8 ? 'dense' : ''}`}>
+            {polyNotes.map((_, i) => (
+              <div key={i} className={`beat-dot poly ${currentPolyNote === i ? 'active' : ''}`} />
+            ))}
+          </div>
+        )}
+
         <div className="screen-footer">
           <span>{isPlaying ? formatTime(elapsedTime) : `Bar 1`}</span>
-          <span>{isPlaying ? `+${currentIncrement} / ${BUMP_INTERVALS[selectedInterval].value}s` : `Start: ${startBpm}`}</span>
+          <span>{isPlaying ? `${stepSign}${currentIncrement} / ${formatInterval(shownInterval)}` : `Start: ${shown.startBpm}`}</span>
         </div>
       </div>
 
@@ -807,7 +1224,10 @@ function App() {
               }}
               disabled={isPlaying}
             />
-            <span className="bpm-input-max">max {MAX_BPM}</span>
+            <div className="bpm-input-footer">
+              <span className="bpm-input-max">max {MAX_BPM}</span>
+              <button className="unit-toggle tap-btn" onClick={tapTempo} disabled={isPlaying}>Tap</button>
+            </div>
           </div>
         </div>
 
@@ -823,7 +1243,7 @@ function App() {
                     setSelectedIncrement(i)
                   }
                 }}
-                disabled={isPlaying}
+                disabled={isPlaying || isAccel}
               >
                 <span className="setting-btn-value">+{inc.value}</span>
               </button>
@@ -831,21 +1251,61 @@ function App() {
           </div>
         </div>
 
-        <div className="setting-group">
-          <div className="setting-label">Interval</div>
-          <div className="setting-grid">
-            {BUMP_INTERVALS.map((bi, i) => (
+        {isAccel ? (
+          <div className="setting-group">
+            <div className="setting-label setting-label-toggle">
+              <span>Ramp</span>
               <button
-                key={i}
-                className={`setting-btn ${selectedInterval === i ? 'selected' : ''}`}
-                onClick={() => { if (!isPlaying) setSelectedInterval(i) }}
+                className="unit-toggle"
+                onClick={() => setRampCurve(rampCurve === 'exponential' ? 'linear' : 'exponential')}
                 disabled={isPlaying}
               >
-                <span className="setting-btn-value">{bi.label}</span>
+                {rampCurve === 'exponential' ? 'Exp' : 'Lin'}
               </button>
-            ))}
+            </div>
+            <div className="setting-grid">
+              {RAMP_DURATIONS.map((rd, i) => (
+                <button
+                  key={i}
+                  className={`setting-btn ${selectedRampDuration === i ? 'selected' : ''}`}
+                  onClick={() => { if (!isPlaying) setSelectedRampDuration(i) }}
+                  disabled={isPlaying}
+                >
+                  <span className="setting-btn-value">{rd.label}</span>
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="setting-group">
+            <div className="setting-label setting-label-toggle">
+              <span>Interval</span>
+              <button
+                className="unit-toggle"
+                onClick={() => setIntervalUnit(intervalUnit === 'bars' ? 'seconds' : 'bars')}
+                disabled={isPlaying}
+              >
+                {intervalUnit === 'bars' ? 'Bars' : 'Sec'}
+              </button>
+            </div>
+            <div className="setting-grid">
+              {intervalOptions.map((bi, i) => (
+                <button
+                  key={i}
+                  className={`setting-btn ${intervalIndex === i ? 'selected' : ''}`}
+                  onClick={() => {
+                    if (isPlaying) return
+                    if (intervalUnit === 'bars') setSelectedBarInterval(i)
+                    else setSelectedInterval(i)
+                  }}
+                  disabled={isPlaying}
+                >
+                  <span className="setting-btn-value">{bi.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Time Signature & Subdivision */}
@@ -856,14 +1316,30 @@ function App() {
             {TIME_SIGNATURES.map((ts, i) => (
               <button
                 key={i}
-                className={`setting-btn ${selectedTimeSig === i ? 'selected' : ''}`}
-                onClick={() => { if (!isPlaying) setSelectedTimeSig(i) }}
+                className={`setting-btn ${meterText === ts.label ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setMeterText(ts.label) }}
                 disabled={isPlaying}
               >
                 <span className="setting-btn-value">{ts.label}</span>
               </button>
             ))}
           </div>
+          {/* Free-form meter; remounts on commit so an invalid entry snaps back */}
+          <input
+            key={meterText}
+            type="text"
+            className="meter-input"
+            defaultValue={meterText}
+            placeholder="7/8 2+2+3"
+            spellCheck={false}
+            onBlur={(e) => {
+              const parsed = parseMeter(e.target.value)
+              if (parsed) setMeterText(formatMeter(parsed))
+              else e.target.value = meterText
+            }}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+            disabled={isPlaying}
+          />
         </div>
 
         <div className="setting-group">
@@ -883,6 +1359,215 @@ function App() {
         </div>
       </div>
 
+      {/* Swing, for 8ths and 16ths */}
+      <div className="settings-row">
+        <div className="setting-group">
+          <div className="setting-label">Swing</div>
+          <div className="setting-grid setting-grid-6">
+            {SWING_AMOUNTS.map((sw, i) => (
+              <button
+                key={sw.value}
+                className={`setting-btn ${selectedSwing === i ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setSelectedSwing(i) }}
+                disabled={isPlaying || SUBDIVISIONS[selectedSubdiv].perBeat % 2 !== 0}
+              >
+                <span className="setting-btn-value">{sw.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Sound Kit */}
+      <div className="settings-row">
+        <div className="setting-group">
+          <div className="setting-label">Sound</div>
+          <div className="setting-grid setting-grid-6">
+            {SOUND_KITS.map((kit, i) => (
+              <button
+                key={kit.id}
+                className={`setting-btn ${selectedKit === i ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setSelectedKit(i) }}
+                disabled={isPlaying}
+              >
+                <span className="setting-btn-value">{kit.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Count-in & Voice */}
+      <div className="settings-row">
+        <div className="setting-group">
+          <div className="setting-label">Count-in</div>
+          <div className="setting-grid">
+            {COUNT_IN_BARS.map((ci, i) => (
+              <button
+                key={i}
+                className={`setting-btn ${selectedCountIn === i ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setSelectedCountIn(i) }}
+                disabled={isPlaying}
+              >
+                <span className="setting-btn-value">{ci.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="setting-group">
+          <div className="setting-label">Voice</div>
+          <div className="setting-grid setting-grid-2">
+            {[false, true].map((on) => (
+              <button
+                key={String(on)}
+                className={`setting-btn ${voiceCount === on ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setVoiceCount(on) }}
+                disabled={isPlaying}
+              >
+                <span className="setting-btn-value">{on ? 'On' : 'Off'}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Silent bars for internal time */}
+      <div className="settings-row">
+        <div className="setting-group">
+          <div className="setting-label">Silent Bars</div>
+          <div className="setting-grid setting-grid-6">
+            {GAP_PATTERNS.map((gp, i) => (
+              <button
+                key={gp.label}
+                className={`setting-btn ${selectedGaps === i ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setSelectedGaps(i) }}
+                disabled={isPlaying}
+              >
+                <span className="setting-btn-value">{gp.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Cross-rhythm layer */}
+      <div className="settings-row">
+        <div className="setting-group">
+          <div className="setting-label">Polyrhythm</div>
+          <div className="setting-grid setting-grid-5">
+            {POLYRHYTHMS.map((pr, i) => (
+              <button
+                key={pr.label}
+                className={`setting-btn ${selectedPoly === i ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setSelectedPoly(i) }}
+                disabled={isPlaying}
+              >
+                <span className="setting-btn-value">{pr.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {polyrhythm && (
+        <div className="settings-row">
+          <div className="setting-group">
+            <div className="setting-label">Layer Sound</div>
+            <div className="setting-grid setting-grid-4">
+              {LAYER_SOUNDS.map((ls, i) => (
+                <button
+                  key={ls.id}
+                  className={`setting-btn ${layerSound === i ? 'selected' : ''}`}
+                  onClick={() => { if (!isPlaying) setLayerSound(i) }}
+                  disabled={isPlaying}
+                >
+                  <span className="setting-btn-value">{ls.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="setting-group">
+            <div className="setting-label">Layer Volume</div>
+            <div className="setting-grid setting-grid-4">
+              {LAYER_VOLUMES.map((lv, i) => (
+                <button
+                  key={lv.label}
+                  className={`setting-btn ${layerVolume === i ? 'selected' : ''}`}
+                  onClick={() => { if (!isPlaying) setLayerVolume(i) }}
+                  disabled={isPlaying}
+                >
+                  <span className="setting-btn-value">{lv.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tempo Mode & Target */}
+      <div className="settings-row">
+        <div className="setting-group">
+          <div className="setting-label">Mode</div>
+          <div className="setting-grid setting-grid-5">
+            {TEMPO_MODES.map((tm, i) => (
+              <button
+                key={i}
+                className={`setting-btn ${selectedMode === i ? 'selected' : ''}`}
+                onClick={() => { if (!isPlaying) setSelectedMode(i) }}
+                disabled={isPlaying}
+              >
+                <span className="setting-btn-value">{tm.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {modeKind === 'sawtooth' ? (
+          <div className="setting-group">
+            <div className="setting-label">Climb / Drop</div>
+            <div className="setting-grid">
+              {SAWTOOTH_PATTERNS.map((sp, i) => (
+                <button
+                  key={i}
+                  className={`setting-btn ${selectedPattern === i ? 'selected' : ''}`}
+                  onClick={() => { if (!isPlaying) setSelectedPattern(i) }}
+                  disabled={isPlaying}
+                >
+                  <span className="setting-btn-value">{sp.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="setting-group">
+            <div className="setting-label">{targetLabel}</div>
+            <input
+              type="number"
+              className="bpm-input target-input"
+              min={1}
+              max={MAX_BPM}
+              placeholder="--"
+              value={targetBpmInput}
+              onChange={(e) => setTargetBpmInput(e.target.value)}
+              onBlur={() => {
+                if (targetBpmInput === '') return
+                const val = parseInt(targetBpmInput, 10)
+                if (isNaN(val)) {
+                  setTargetBpmInput('')
+                } else if (val < 1) {
+                  setTargetBpmInput('1')
+                } else if (val > MAX_BPM) {
+                  setTargetBpmInput(String(MAX_BPM))
+                }
+              }}
+              disabled={isPlaying}
+            />
+          </div>
+        )}
+      </div>
+
       {/* Transport Controls */}
       <div className="transport">
         <button className="transport-btn" onClick={start} disabled={isPlaying && !isPaused}>
@@ -901,11 +1586,66 @@ function App() {
         </button>
       </div>
 
+      {/* Manual tempo control, each applied on the next downbeat */}
+      <div className="utility-row">
+        <button
+          className={`utility-btn ${manual.stepBackPending ? 'pending' : ''}`}
+          onClick={stepBack}
+          disabled={!isPlaying || shownAccel}
+        >
+          Back -{currentIncrement}
+        </button>
+        <button
+          className={`utility-btn ${holdOn ? 'on' : ''} ${manual.holdPending ? 'pending' : ''}`}
+          onClick={toggleHold}
+          disabled={!isPlaying || shownAccel}
+        >
+          {holdOn ? 'Release' : 'Hold'}
+        </button>
+        <button
+          className={`utility-btn ${manual.bumpPending ? 'pending' : ''}`}
+          onClick={bumpNow}
+          disabled={!isPlaying || shownAccel}
+        >
+          Bump now
+        </button>
+      </div>
+
+      <div className="utility-row">
+        <button className="utility-btn" onClick={() => setShowPresets(true)} disabled={isPlaying}>Presets</button>
+        <button className="utility-btn" onClick={() => setShowRoutines(true)} disabled={isPlaying}>Routines</button>
+        <button className="utility-btn" onClick={() => setShowHistory(true)}>History</button>
+        <button className="utility-btn" onClick={() => setShowControls(true)}>Controls</button>
+        <button
+          className={`utility-btn ${mic.status === 'on' ? 'on' : ''}`}
+          onClick={mic.status === 'on' ? mic.disable : mic.enable}
+          disabled={mic.status === 'unsupported' || mic.status === 'starting'}
+        >
+          Mic
+        </button>
+        <button
+          className={`utility-btn ${earn.enabled ? 'on' : ''}`}
+          onClick={() => earn.setEnabled(!earn.enabled)}
+        >
+          Earn
+        </button>
+        {/* Exports render a single setup; a routine's segments aren't exported */}
+        <button
+          className="utility-btn"
+          onClick={() => setShowExport(true)}
+          disabled={activeRoutine !== null}
+          title={activeRoutine ? 'Leave the routine to export' : undefined}
+        >
+          Export
+        </button>
+        <button className="utility-btn" onClick={copyShareLink}>{linkCopied ? 'Copied' : 'Copy link'}</button>
+      </div>
+
       <div className="brand-divider" />
 
       <div className="bottom-labels">
         <span className="bottom-label">Progressive Metronome</span>
-        <span className="bottom-label">+{currentIncrement} BPM / {BUMP_INTERVALS[selectedInterval].value}s</span>
+        <span className="bottom-label">{stepSign}{currentIncrement} BPM / {formatInterval(shownInterval)}</span>
       </div>
 
       <div className="brand-mark">
@@ -914,6 +1654,97 @@ function App() {
 
       <div className="made-in">made in fukuoka</div>
       <div className="credit">a cody, yohei and marsel collab</div>
+
+      {showPresets && (
+        <PresetsPanel
+          presets={presets}
+          activePresetId={activePreset?.id ?? null}
+          describe={(p) => `${p.settings.startBpm} BPM · ${describeSettings(p.settings)}`}
+          onSave={(name) => updatePresets(upsertPreset(presets, name, currentSettings))}
+          onLoad={(p) => {
+            applySettings(p.settings)
+            setShowPresets(false)
+          }}
+          onDelete={(p) => {
+            if (!window.confirm(`Delete preset "${p.name}"?`)) return
+            updatePresets(presets.filter((other) => other.id !== p.id))
+          }}
+          onExport={() => downloadFile('codybpm-presets.json', exportPresets(presets), 'application/json')}
+          onImport={(text) => updatePresets(importPresets(presets, text))}
+          onClose={() => setShowPresets(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          records={history}
+          onClear={() => {
+            if (!window.confirm('Clear all practice history?')) return
+            clearHistory()
+            setHistory([])
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showRoutines && (
+        <RoutinesPanel
+          routines={routines}
+          activeRoutineId={activeRoutine?.id ?? null}
+          currentSettings={currentSettings}
+          describe={describeSettings}
+          onChange={updateRoutines}
+          onPlay={(routine) => {
+            setRoutineId(routine.id)
+            setShownSegment(0)
+            setCurrentBpm(routine.segments[0].settings.startBpm)
+            setShowRoutines(false)
+          }}
+          onClose={() => setShowRoutines(false)}
+        />
+      )}
+
+      {showExport && !activeRoutine && (
+        <ExportPanel
+          summary={`${startBpm} BPM · ${exerciseName}`}
+          target={exportTarget}
+          onRenderAudio={async (end) => {
+            const timeline = exportTimeline(end)
+            const audio = await renderTimelineAudio(timeline, selectedKit, layerVoice)
+            downloadFile(`${exportName}.wav`, encodeWav(audio), 'audio/wav')
+            return timeline
+          }}
+          onTempoMap={(end) => {
+            const timeline = exportTimeline(end)
+            downloadFile(`${exportName}-tempo.csv`, tempoMapCsv(timeline), 'text/csv')
+            return timeline
+          }}
+          onMidiFile={(end) => {
+            const timeline = exportTimeline(end)
+            downloadFile(`${exportName}.mid`, buildMidiFile(timeline, exportSettings), 'audio/midi')
+            return timeline
+          }}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showControls && (
+        <ControlsPanel
+          midiStatus={midi.status}
+          midiDevices={midi.devices}
+          bindings={midi.bindings}
+          learning={midi.learning}
+          onConnect={midi.connect}
+          onLearn={midi.learn}
+          onClearBinding={midi.clearBinding}
+          keepAwake={keepAwake}
+          onKeepAwakeChange={setKeepAwake}
+          onClose={() => {
+            midi.learn(null)
+            setShowControls(false)
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,75 @@
+import type { EngineClock } from '../engine/tempoEngine'
+import type { TimerRequest } from './timerWorker'
+
+export type Timers = Pick<EngineClock, 'setTimeout' | 'clearTimeout'>
+
+const windowTimers: Timers = {
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle),
+}
+
+// Timers served by a Web Worker, started on first use. Falls back to window
+// timers where workers are unavailable or the worker fails to load.
+function createWorkerTimers(): Timers {
+  let worker: Worker | null | undefined // undefined = not started yet
+  let nextId = -1 // negative, so a stale id can never clear a window timer after falling back
+  const callbacks = new Map<number, () => void>()
+
+  const fallBack = () => {
+    worker?.terminate()
+    worker = null
+    // Anything still pending would never fire; run it now so the scheduler re-arms
+    const pending = [...callbacks.values()]
+    callbacks.clear()
+    for (const callback of pending) window.setTimeout(callback, 0)
+  }
+
+  const getWorker = () => {
+    if (worker === undefined) {
+      try {
+        worker = new Worker(new URL('./timerWorker.ts', import.meta.url), { type: 'module' })
+        worker.onmessage = (event: MessageEvent<number>) => {
+          const callback = callbacks.get(event.data)
+          callbacks.delete(event.data)
+          callback?.()
+        }
+        worker.onerror = fallBack
+      } catch {
+        worker = null
+      }
+    }
+    return worker
+  }
+
+  const post = (request: TimerRequest) => getWorker()?.postMessage(request)
+
+  return {
+    setTimeout(callback, ms) {
+      if (!getWorker()) return windowTimers.setTimeout(callback, ms)
+      const id = nextId--
+      callbacks.set(id, callback)
+      post({ type: 'set', id, ms })
+      return id
+    },
+    clearTimeout(handle) {
+      if (!getWorker()) return windowTimers.clearTimeout(handle)
+      callbacks.delete(handle)
+      post({ type: 'clear', id: handle })
+    },
+  }
+}
+
+// Timers that keep their pace in a hidden tab: worker-backed where possible
+export const createBackgroundTimers = (): Timers =>
+  typeof Worker === 'undefined' ? windowTimers : createWorkerTimers()
+
+// Engine clock backed by whichever AudioContext is current. The AudioContext
+// provides the time base; scheduler passes are timed from a worker.
+export function createAudioContextClock(getContext: () => AudioContext | null): EngineClock {
+  const timers = createBackgroundTimers()
+  return {
+    now: () => getContext()?.currentTime ?? 0,
+    setTimeout: timers.setTimeout,
+    clearTimeout: timers.clearTimeout,
+  }
+}
@@ -0,0 +1,34 @@
+import { encodeWav } from './wav'
+
+// Mobile browsers freeze a page once the screen locks or another app comes
+// up, unless it is playing media. A looping silent <audio> element marks the
+// session as playback, so the scheduler and AudioContext keep running and the
+// lock screen shows the Media Session controls. The clicks themselves still
+// go straight to the AudioContext.
+
+// Long enough for Android to show a media notification (it skips clips under 5s)
+const SILENCE_SECONDS = 6
+const SILENCE_RATE = 8000
+
+export function createBackgroundAudio() {
+  let element: HTMLAudioElement | null = null
+
+  const getElement = () => {
+    if (!element) {
+      const silence = new AudioBuffer({ length: SILENCE_SECONDS * SILENCE_RATE, sampleRate: SILENCE_RATE })
+      element = new Audio(URL.createObjectURL(new Blob([encodeWav(silence)], { type: 'audio/wav' })))
+      element.loop = true
+    }
+    return element
+  }
+
+  return {
+    // Call from the user gesture that starts playback, or autoplay rules block it
+    play() {
+      getElement().play().catch(() => {})
+    },
+    pause() {
+      element?.pause()
+    },
+  }
+}
@@ -0,0 +1,37 @@
+import type { ClickType } from '../engine/tempoEngine'
+import type { AccentLevel } from '../engine/accents'
+
+// Short sine blip: downbeat 1000 Hz, group accent 850 Hz, beat 700 Hz, subdivision 500 Hz.
+// An accented cell is raised a few semitones and played full level; a ghost is a quarter of normal.
+export function playClick(ctx: BaseAudioContext, time: number, clickType: ClickType, level: AccentLevel = 'normal') {
+  const osc = ctx.createOscillator()
+  const gain = ctx.createGain()
+  osc.connect(gain)
+  gain.connect(ctx.destination)
+
+  let frequency = 500
+  let peak = 0.4
+  if (clickType === 'downbeat') {
+    frequency = 1000
+    peak = 0.8
+  } else if (clickType === 'accent') {
+    frequency = 850
+    peak = 0.8
+  } else if (clickType === 'beat') {
+    frequency = 700
+    peak = 0.8
+  }
+
+  if (level === 'accent') {
+    frequency *= 1.25
+    peak = 1
+  } else if (level === 'ghost') {
+    peak *= 0.25
+  }
+
+  osc.frequency.value = frequency
+  gain.gain.setValueAtTime(peak, time)
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.08)
+  osc.start(time)
+  osc.stop(time + 0.08)
+}
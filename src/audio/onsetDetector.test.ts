@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { createOnsetDetector } from './onsetDetector'
+import { createTimingTracker } from '../engine/timingAnalysis'
+
+const SAMPLE_RATE = 44100
+const CHUNK = 1024 // samples per push, about what the live reader gets per poll
+
+// A quiet noise floor with a short decaying 1 kHz click starting at each of `onsets`
+function renderClicks(onsets: number[], seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE))
+  for (let i = 0; i < samples.length; i++) {
+    const hash = Math.sin(i * 12.9898) * 43758.5453
+    samples[i] = 0.002 * (2 * (hash - Math.floor(hash)) - 1)
+  }
+  for (const onset of onsets) {
+    const start = Math.round(onset * SAMPLE_RATE)
+    for (let i = 0; i < 0.03 * SAMPLE_RATE && start + i < samples.length; i++) {
+      const t = i / SAMPLE_RATE
+      samples[start + i] += 0.5 * Math.cos(2 * Math.PI * 1000 * t) * Math.exp(-t / 0.005)
+    }
+  }
+  return samples
+}
+
+// Runs the samples through a detector in chunks, as the analyser reader would
+function detect(samples: Float32Array): number[] {
+  const detector = createOnsetDetector(SAMPLE_RATE)
+  const onsets: number[] = []
+  for (let start = 0; start < samples.length; start += CHUNK) {
+    const chunk = samples.subarray(start, start + CHUNK)
+    onsets.push(...detector.push(chunk, (start + chunk.length - 1) / SAMPLE_RATE))
+  }
+  return onsets
+}
+
+// 120 BPM in 4/4: four beats a bar from 0.5s
+const BEAT = 0.5
+const tickTime = (index: number) => 0.5 + index * BEAT
+
+describe('onset detection', () => {
+  it('finds each click within a millisecond and nothing in the noise', () => {
+    const played = [0.5, 1.012, 1.49, 2.003]
+    const onsets = detect(renderClicks(played, 2.5))
+    expect(onsets).toHaveLength(played.length)
+    onsets.forEach((onset, i) => expect(Math.abs(onset - played[i])).toBeLessThan(0.001))
+
+    expect(detect(renderClicks([], 1))).toEqual([])
+  })
+
+  it('reports per-bar offsets and interval timing from detected onsets', () => {
+    // Mean offset per bar in ms, with beats alternating 2 ms either side of it
+    const barOffsets = [10, -15, 0, 5]
+    const barSpreads = [10, 15, 2, 5]
+    const played = barOffsets.flatMap((offset, bar) =>
+      [-2, 2, -2, 2].map((wobble, beat) => tickTime(bar * 4 + beat) + (offset + wobble) / 1000))
+
+    const tracker = createTimingTracker()
+    // One tick past the last bar, so its final note can be matched
+    for (let i = 0; i <= 16; i++) tracker.addTick(tickTime(i), Math.floor(i / 4))
+    for (const onset of detect(renderClicks(played, 9))) tracker.addOnset(onset)
+
+    const bars = tracker.recentBars(4)
+    expect(bars.map((b) => b.bar)).toEqual([0, 1, 2, 3])
+    bars.forEach((b, i) => {
+      expect(b.hits).toBe(4)
+      expect(Math.abs(b.offsetMs - barOffsets[i])).toBeLessThan(1)
+      expect(Math.abs(b.spreadMs - barSpreads[i])).toBeLessThan(1)
+    })
+
+    // Bars 1 and 2: 15 ms and 2 ms off on average
+    const timing = tracker.interval(tickTime(4) - BEAT / 2, tickTime(12) - BEAT / 2)
+    expect(timing.hits).toBe(8)
+    expect(Math.abs(timing.meanAbsMs - 8.5)).toBeLessThan(1)
+  })
+})
@@ -0,0 +1,103 @@
+import type { Timers } from './audioClock'
+
+// Note onsets from a mono signal by energy flux: a short frame much louder
+// than the recent background starts a note. Works on any instrument with an
+// attack (drums, picked or plucked strings, piano), not on slow swells.
+
+const FRAME = 256              // samples, ~6 ms at 44.1 kHz
+const RISE = 4                 // frame energy over background that counts as an attack
+const FLOOR = 1e-4             // mean square below this is silence, however sudden
+const REFRACTORY = 0.05        // seconds; ignores the ringing of the same note
+const BACKGROUND_SMOOTHING = 0.1
+
+export interface OnsetDetector {
+  // Feeds the next contiguous samples, the last of which is at `endTime`
+  // seconds; returns the onset times found in them
+  push(samples: Float32Array, endTime: number): number[]
+}
+
+export function createOnsetDetector(sampleRate: number): OnsetDetector {
+  const frame = new Float32Array(FRAME)
+  let filled = 0
+  let background = FLOOR
+  let lastOnset = -Infinity
+
+  return {
+    push(samples, endTime) {
+      const onsets: number[] = []
+      const firstTime = endTime - (samples.length - 1) / sampleRate
+      for (let i = 0; i < samples.length; i++) {
+        frame[filled++] = samples[i]
+        if (filled < FRAME) continue
+        filled = 0
+
+        let energy = 0
+        let peak = 0
+        for (const x of frame) {
+          energy += x * x
+          peak = Math.max(peak, Math.abs(x))
+        }
+        energy /= FRAME
+        const frameStart = firstTime + (i - FRAME + 1) / sampleRate
+
+        if (energy > FLOOR && energy > background * RISE && frameStart - lastOnset > REFRACTORY) {
+          // The attack starts where the signal first gets near the frame's peak
+          const attack = frame.findIndex((x) => Math.abs(x) >= peak / 2)
+          lastOnset = frameStart + attack / sampleRate
+          onsets.push(lastOnset)
+        }
+        background += (Math.max(energy, FLOOR) - background) * BACKGROUND_SMOOTHING
+      }
+      return onsets
+    },
+  }
+}
+
+// Copies the samples an AnalyserNode took in since the last read. The
+// analyser only holds its last fftSize samples, so reads must come at least
+// that often; anything older is lost.
+function createAnalyserReader(analyser: AnalyserNode) {
+  const buffer = new Float32Array(analyser.fftSize)
+  let lastRead = analyser.context.currentTime
+  return () => {
+    const now = analyser.context.currentTime
+    const fresh = Math.min(buffer.length, Math.round((now - lastRead) * analyser.context.sampleRate))
+    lastRead = now
+    analyser.getFloatTimeDomainData(buffer)
+    return { samples: buffer.subarray(buffer.length - fresh), time: now }
+  }
+}
+
+// Live onsets from a microphone, on the context's clock so they line up with
+// the scheduled ticks. `latency` (seconds) is taken off every onset: the
+// click reaches the speaker and the playing reaches the analyser that much
+// after the times the clock shows. `timers` paces the reads: background
+// timers keep up in a hidden tab, and one set can serve every session.
+// Returns a function that disconnects it.
+export function listenForOnsets(
+  ctx: AudioContext,
+  stream: MediaStream,
+  latency: number,
+  timers: Timers,
+  onOnset: (time: number) => void,
+): () => void {
+  const source = ctx.createMediaStreamSource(stream)
+  const analyser = ctx.createAnalyser()
+  analyser.fftSize = 4096
+  source.connect(analyser)
+  const read = createAnalyserReader(analyser)
+  const detector = createOnsetDetector(ctx.sampleRate)
+
+  let timer: number | null = null
+  const poll = () => {
+    const { samples, time } = read()
+    for (const onset of detector.push(samples, time)) onOnset(onset - latency)
+    timer = timers.setTimeout(poll, 25)
+  }
+  poll()
+
+  return () => {
+    if (timer !== null) timers.clearTimeout(timer)
+    source.disconnect()
+  }
+}
@@ -0,0 +1,20 @@
+import type { SessionTimeline } from '../engine/timeline'
+import { createKitPlayer, type LayerVoice } from './soundKits'
+
+const SAMPLE_RATE = 44100
+const TAIL = 1 // seconds after the last click, so it rings out
+
+// Plays a prepared timeline through the chosen kit (and cross-rhythm voice)
+// in an OfflineAudioContext. The kit renders into that context exactly as it
+// does live.
+export function renderTimelineAudio(
+  timeline: SessionTimeline,
+  kitIndex: number,
+  layer?: LayerVoice,
+): Promise<AudioBuffer> {
+  const length = Math.ceil((timeline.duration + TAIL) * SAMPLE_RATE)
+  const ctx = new OfflineAudioContext(1, length, SAMPLE_RATE)
+  const play = createKitPlayer(ctx, kitIndex, layer)
+  for (const click of timeline.clicks) play(click.time, click.clickType, click.level)
+  return ctx.startRendering()
+}
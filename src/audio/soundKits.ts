@@ -0,0 +1,153 @@
+import type { ClickSink, ClickType } from '../engine/tempoEngine'
+import type { AccentLevel } from '../engine/accents'
+import { playClick } from './click'
+import { synthesize, type Instrument } from './synth'
+
+interface KitSound {
+  instrument: Instrument
+  pitch: number
+  gain: number
+}
+
+// The kit plays the main pulse; the cross-rhythm layer has a sound of its own
+type PulseClick = Exclude<ClickType, 'poly'>
+
+interface SoundKit {
+  id: string
+  label: string
+  // null = the original oscillator blips
+  sounds: Record<PulseClick, KitSound> | null
+}
+
+// Every click type maps to its own sound, so a kit can mix instruments
+export const SOUND_KITS: SoundKit[] = [
+  { id: 'beep', label: 'Beep', sounds: null },
+  {
+    id: 'woodblock',
+    label: 'Wood',
+    sounds: {
+      downbeat: { instrument: 'woodblock', pitch: 1.25, gain: 1 },
+      accent: { instrument: 'woodblock', pitch: 1.12, gain: 0.9 },
+      beat: { instrument: 'woodblock', pitch: 1, gain: 0.85 },
+      sub: { instrument: 'woodblock', pitch: 0.8, gain: 0.5 },
+    },
+  },
+  {
+    id: 'cowbell',
+    label: 'Bell',
+    sounds: {
+      downbeat: { instrument: 'cowbell', pitch: 1.2, gain: 1 },
+      accent: { instrument: 'cowbell', pitch: 1.1, gain: 0.85 },
+      beat: { instrument: 'cowbell', pitch: 1, gain: 0.75 },
+      sub: { instrument: 'hihat', pitch: 1, gain: 0.4 },
+    },
+  },
+  {
+    id: 'rimshot',
+    label: 'Rim',
+    sounds: {
+      downbeat: { instrument: 'rimshot', pitch: 1.15, gain: 1 },
+      accent: { instrument: 'rimshot', pitch: 1.05, gain: 0.9 },
+      beat: { instrument: 'rimshot', pitch: 1, gain: 0.8 },
+      sub: { instrument: 'rimshot', pitch: 0.85, gain: 0.4 },
+    },
+  },
+  {
+    id: 'hihat',
+    label: 'Hat',
+    sounds: {
+      downbeat: { instrument: 'hihat', pitch: 0.5, gain: 1 },
+      accent: { instrument: 'hihat', pitch: 0.8, gain: 0.9 },
+      beat: { instrument: 'hihat', pitch: 1, gain: 0.8 },
+      sub: { instrument: 'hihat', pitch: 1.2, gain: 0.45 },
+    },
+  },
+  {
+    id: 'vocal',
+    label: 'Vocal',
+    sounds: {
+      downbeat: { instrument: 'vocal', pitch: 1, gain: 1 },
+      accent: { instrument: 'vocal', pitch: 0.85, gain: 0.9 },
+      beat: { instrument: 'vocal', pitch: 0.7, gain: 0.8 },
+      sub: { instrument: 'vocal', pitch: 0.5, gain: 0.45 },
+    },
+  },
+]
+
+// Cross-rhythm layer sounds, pitched to cut through any kit
+export const LAYER_SOUNDS: { id: string; label: string; sound: KitSound }[] = [
+  { id: 'bell', label: 'Bell', sound: { instrument: 'cowbell', pitch: 1.5, gain: 1 } },
+  { id: 'wood', label: 'Wood', sound: { instrument: 'woodblock', pitch: 1.6, gain: 1 } },
+  { id: 'rim', label: 'Rim', sound: { instrument: 'rimshot', pitch: 1.4, gain: 1 } },
+  { id: 'hat', label: 'Hat', sound: { instrument: 'hihat', pitch: 0.7, gain: 1 } },
+]
+
+export const LAYER_VOLUMES = [
+  { label: '25%', value: 0.25 },
+  { label: '50%', value: 0.5 },
+  { label: '75%', value: 0.75 },
+  { label: '100%', value: 1 },
+]
+
+export interface LayerVoice {
+  sound: number  // index into LAYER_SOUNDS
+  volume: number // index into LAYER_VOLUMES
+}
+
+function renderBuffer(ctx: BaseAudioContext, { instrument, pitch }: KitSound): AudioBuffer {
+  const samples = synthesize(instrument, pitch, ctx.sampleRate)
+  const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate)
+  buffer.copyToChannel(samples, 0)
+  return buffer
+}
+
+function playBuffer(ctx: BaseAudioContext, buffer: AudioBuffer, time: number, gainValue: number, rate = 1) {
+  const source = ctx.createBufferSource()
+  const gain = ctx.createGain()
+  source.buffer = buffer
+  source.connect(gain)
+  gain.connect(ctx.destination)
+  gain.gain.value = gainValue
+  source.playbackRate.value = rate
+  source.start(time)
+}
+
+// Renders the kit's buffers into `ctx` and returns a click sink playing them,
+// with 'poly' clicks in the layer's voice. Buffers belong to the context they
+// were created in, so call once per context.
+export function createKitPlayer(
+  ctx: BaseAudioContext,
+  kitIndex: number,
+  layer: LayerVoice = { sound: 0, volume: 3 },
+): ClickSink {
+  const kit = SOUND_KITS[kitIndex] ?? SOUND_KITS[0]
+  const sounds = kit.sounds
+  const layerSound = (LAYER_SOUNDS[layer.sound] ?? LAYER_SOUNDS[0]).sound
+  const layerBuffer = renderBuffer(ctx, layerSound)
+  const layerGain = layerSound.gain * (LAYER_VOLUMES[layer.volume] ?? LAYER_VOLUMES[3]).value * 0.8
+  const playLayer = (time: number, level: AccentLevel) =>
+    playBuffer(ctx, layerBuffer, time, level === 'ghost' ? layerGain * 0.25 : layerGain)
+
+  if (!sounds) {
+    return (time, clickType, level) => {
+      if (clickType === 'poly') playLayer(time, level)
+      else playClick(ctx, time, clickType, level)
+    }
+  }
+
+  const buffers = {} as Record<PulseClick, AudioBuffer>
+  for (const clickType of Object.keys(sounds) as PulseClick[]) {
+    buffers[clickType] = renderBuffer(ctx, sounds[clickType])
+  }
+
+  return (time, clickType, level) => {
+    if (clickType === 'poly') {
+      playLayer(time, level)
+      return
+    }
+    // Accents play a touch brighter and full level, ghosts at a quarter
+    const base = sounds[clickType].gain
+    const gain = level === 'accent' ? 1 : level === 'ghost' ? base * 0.25 : base * 0.8
+    playBuffer(ctx, buffers[clickType], time, gain, level === 'accent' ? 1.12 : 1)
+  }
+}
@@ -0,0 +1,148 @@
+// Offline synthesis of one-shot percussion into raw sample arrays. Everything
+// is plain math so the same buffers come out of a live AudioContext and an
+// OfflineAudioContext.
+
+export type Instrument = 'woodblock' | 'cowbell' | 'rimshot' | 'hihat' | 'vocal'
+export type Samples = Float32Array<ArrayBuffer>
+
+// Deterministic noise so a kit sounds identical on every render
+function noiseSource(seed: number) {
+  let state = seed >>> 0 || 1
+  return () => {
+    state ^= state << 13
+    state ^= state >>> 17
+    state ^= state << 5
+    return ((state >>> 0) / 0xffffffff) * 2 - 1
+  }
+}
+
+// Two-pole resonant bandpass (RBJ cookbook, constant 0 dB peak gain)
+function bandpass(input: Samples, freq: number, q: number, sampleRate: number): Samples {
+  const w0 = (2 * Math.PI * freq) / sampleRate
+  const alpha = Math.sin(w0) / (2 * q)
+  const a0 = 1 + alpha
+  const b0 = alpha / a0
+  const b2 = -alpha / a0
+  const a1 = (-2 * Math.cos(w0)) / a0
+  const a2 = (1 - alpha) / a0
+  const out = new Float32Array(input.length)
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i]
+    const y = b0 * x + b2 * x2 - a1 * y1 - a2 * y2
+    x2 = x1
+    x1 = x
+    y2 = y1
+    y1 = y
+    out[i] = y
+  }
+  return out
+}
+
+function normalize(samples: Samples, peak = 0.9): Samples {
+  let max = 0
+  for (const s of samples) max = Math.max(max, Math.abs(s))
+  if (max > 0) {
+    const scale = peak / max
+    for (let i = 0; i < samples.length; i++) samples[i] *= scale
+  }
+  return samples
+}
+
+const decay = (t: number, seconds: number) => Math.exp(-t / seconds)
+
+// Vowel formants (F1, F2, F3) for the voice instrument's syllables
+const VOWELS = [
+  [730, 1090, 2440], // "ah"
+  [530, 1840, 2480], // "eh"
+  [300, 870, 2240],  // "oo"
+  [270, 2290, 3010], // "ee"
+]
+
+// `pitch` scales the instrument's base tuning; for the voice it also picks
+// the vowel (1 = "ah", lower pitches move through "eh", "oo", "ee")
+export function synthesize(instrument: Instrument, pitch: number, sampleRate: number): Samples {
+  const noise = noiseSource(Math.round(pitch * 1000) + instrument.length)
+
+  switch (instrument) {
+    case 'woodblock': {
+      const length = Math.round(sampleRate * 0.08)
+      const out = new Float32Array(length)
+      const f = 1200 * pitch
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        const body = Math.sin(2 * Math.PI * f * t) * decay(t, 0.018)
+        const overtone = 0.4 * Math.sin(2 * Math.PI * f * 2.7 * t) * decay(t, 0.006)
+        const click = t < 0.002 ? noise() * (1 - t / 0.002) * 0.6 : 0
+        out[i] = body + overtone + click
+      }
+      return normalize(out)
+    }
+
+    case 'cowbell': {
+      // Two detuned square partials through a bandpass, the classic drum machine recipe
+      const length = Math.round(sampleRate * 0.3)
+      const raw = new Float32Array(length)
+      const f1 = 540 * pitch
+      const f2 = 800 * pitch
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        const square = Math.sign(Math.sin(2 * Math.PI * f1 * t)) + Math.sign(Math.sin(2 * Math.PI * f2 * t))
+        raw[i] = square * (0.7 * decay(t, 0.012) + 0.3 * decay(t, 0.09))
+      }
+      return normalize(bandpass(raw, 2640 * pitch, 1.5, sampleRate))
+    }
+
+    case 'rimshot': {
+      const length = Math.round(sampleRate * 0.07)
+      const raw = new Float32Array(length)
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        raw[i] = noise() * decay(t, 0.008)
+      }
+      const crack = bandpass(raw, 1800 * pitch, 2.5, sampleRate)
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        crack[i] += 0.6 * Math.sin(2 * Math.PI * 460 * pitch * t) * decay(t, 0.01)
+      }
+      return normalize(crack)
+    }
+
+    case 'hihat': {
+      // Lower pitch reads as a more open hat: longer decay
+      const length = Math.round(sampleRate * 0.2)
+      const raw = new Float32Array(length)
+      const ring = 0.025 / pitch
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        raw[i] = noise() * decay(t, ring)
+      }
+      return normalize(bandpass(raw, 8000, 0.8, sampleRate))
+    }
+
+    case 'vocal': {
+      // Glottal sawtooth through three formant resonators, with a short
+      // noise burst in front for a "t" consonant
+      const vowel = VOWELS[Math.min(VOWELS.length - 1, Math.max(0, Math.round((1 - pitch) * 6)))]
+      const length = Math.round(sampleRate * 0.16)
+      const source = new Float32Array(length)
+      const f0 = 150 * pitch
+      let phase = 0
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        phase = (phase + f0 / sampleRate) % 1
+        const envelope = Math.min(1, t / 0.01) * decay(Math.max(0, t - 0.03), 0.05)
+        source[i] = (2 * phase - 1) * envelope
+      }
+      const out = new Float32Array(length)
+      vowel.forEach((formant, k) => {
+        const band = bandpass(source, formant, 8, sampleRate)
+        const weight = 1 / (k + 1)
+        for (let i = 0; i < length; i++) out[i] += band[i] * weight
+      })
+      const burst = Math.round(sampleRate * 0.012)
+      for (let i = 0; i < burst; i++) out[i] += noise() * 0.15 * (1 - i / burst)
+      return normalize(out)
+    }
+  }
+}
@@ -0,0 +1,19 @@
+// Timers for the lookahead scheduler, run off the main thread. Worker timers
+// keep their pace while the tab is hidden or the page is busy drawing, where
+// window timers get throttled or pushed back.
+export type TimerRequest = { type: 'set'; id: number; ms: number } | { type: 'clear'; id: number }
+
+const timers = new Map<number, ReturnType<typeof setTimeout>>()
+
+self.onmessage = (event: MessageEvent<TimerRequest>) => {
+  const request = event.data
+  if (request.type === 'set') {
+    timers.set(request.id, setTimeout(() => {
+      timers.delete(request.id)
+      self.postMessage(request.id)
+    }, request.ms))
+  } else {
+    clearTimeout(timers.get(request.id))
+    timers.delete(request.id)
+  }
+}
@@ -0,0 +1,193 @@
+import type { TempoEngineEvents } from '../engine/tempoEngine'
+import { groupStarts, type Meter } from '../engine/meter'
+import type { Samples } from './synth'
+
+// A tiny formant speech synthesizer for counting out loud. Every word a
+// meter and subdivision need is rendered into a buffer up front, so the
+// tick listener only schedules them on the audio clock and they land
+// exactly with the clicks.
+
+interface Phoneme {
+  dur: number
+  formants?: [number, number, number] // voiced target; unvoiced phonemes hold the previous one
+  glideTo?: [number, number, number]  // diphthong end point
+  voice?: number
+  noise?: number
+  noiseBand?: number
+}
+
+const closure = (dur = 0.02): Phoneme => ({ dur })
+const burst = (noiseBand: number, noise = 0.5, dur = 0.02): Phoneme => ({ dur, noise, noiseBand })
+
+const W: Phoneme = { dur: 0.05, formants: [300, 610, 2200], voice: 0.5 }
+const R: Phoneme = { dur: 0.05, formants: [460, 1190, 1600], voice: 0.7 }
+const L: Phoneme = { dur: 0.05, formants: [360, 1300, 2800], voice: 0.7 }
+const N: Phoneme = { dur: 0.07, formants: [250, 1700, 2600], voice: 0.45 }
+const V: Phoneme = { dur: 0.05, formants: [250, 1500, 2500], voice: 0.35, noise: 0.1, noiseBand: 4000 }
+const F: Phoneme = { dur: 0.08, noise: 0.3, noiseBand: 5000 }
+const TH: Phoneme = { dur: 0.07, noise: 0.25, noiseBand: 6000 }
+const S: Phoneme = { dur: 0.09, noise: 0.5, noiseBand: 7000 }
+const T = [closure(), burst(4500, 0.6)]
+const D = [closure(0.015), burst(3500, 0.3, 0.015)]
+const K = [closure(), burst(2200, 0.5, 0.025)]
+const P = [closure(), burst(1200, 0.5)]
+
+const vowel = (dur: number, formants: [number, number, number], glideTo?: [number, number, number]): Phoneme =>
+  ({ dur, formants, glideTo, voice: 1 })
+const UH = vowel(0.12, [640, 1190, 2390])
+const UW = vowel(0.16, [300, 870, 2240])
+const IY = vowel(0.15, [270, 2290, 3010])
+const IH = vowel(0.09, [390, 1990, 2550])
+const EH = vowel(0.1, [530, 1840, 2480])
+const AE = vowel(0.13, [660, 1720, 2410])
+const AO = vowel(0.15, [570, 840, 2410])
+const AY = vowel(0.18, [730, 1090, 2440], [300, 2200, 2900])
+const EY = vowel(0.16, [530, 1840, 2480], [320, 2200, 2900])
+
+const WORDS: Record<string, Phoneme[]> = {
+  one: [W, UH, N],
+  two: [...T, UW],
+  three: [TH, R, IY],
+  four: [F, AO, R],
+  five: [F, AY, V],
+  six: [S, IH, ...K, S],
+  seven: [S, EH, V, { ...EH, dur: 0.06 }, N],
+  eight: [EY, ...T],
+  nine: [N, AY, N],
+  ten: [...T, EH, N],
+  eleven: [{ ...IH, dur: 0.06 }, L, EH, V, { ...EH, dur: 0.06 }, N],
+  twelve: [...T, W, EH, L, V],
+  e: [{ ...IY, dur: 0.1 }],
+  and: [AE, N, ...D],
+  a: [{ ...UH, dur: 0.08 }],
+  trip: [...T, R, IH, ...P],
+  let: [L, EH, ...T],
+}
+
+const NUMBERS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve']
+const SUB_WORDS: Record<number, string[]> = {
+  2: ['and'],
+  3: ['trip', 'let'],
+  4: ['e', 'and', 'a'],
+}
+
+// What to say on a tick: the beat number on main beats ("one", "two", ...,
+// counting within each group past twelve beats), "e-and-a" style syllables
+// on subdivisions
+export function wordForTick(beat: number, sub: number, subdivision: number, meter: Meter): string | null {
+  if (sub > 0) return SUB_WORDS[subdivision]?.[sub - 1] ?? null
+  if (meter.beats <= NUMBERS.length) return NUMBERS[beat]
+  const groupStart = Math.max(...groupStarts(meter).filter((start) => start <= beat))
+  return NUMBERS[Math.min(beat - groupStart, NUMBERS.length - 1)]
+}
+
+function renderWord(phonemes: Phoneme[], sampleRate: number): Samples {
+  const total = phonemes.reduce((sum, p) => sum + p.dur, 0) + 0.03
+  const out = new Float32Array(Math.round(total * sampleRate))
+  const bandwidths = [60, 90, 120]
+  const weights = [1, -0.6, 0.3] // alternating signs keep parallel formants from cancelling
+
+  // Smoothed parameter tracks, so phonemes blend instead of clicking
+  const firstVoiced = phonemes.find((p) => p.formants)?.formants ?? [500, 1500, 2500]
+  const formants = [...firstVoiced]
+  let voiceAmp = 0
+  let noiseAmp = 0
+  let noiseBand = 4000
+  const formantSmoothing = 1 - Math.exp(-1 / (0.015 * sampleRate))
+  const ampSmoothing = 1 - Math.exp(-1 / (0.005 * sampleRate))
+
+  // Two-pole resonators, coefficients refreshed every block
+  const state = [0, 0, 0, 0].map(() => ({ y1: 0, y2: 0, a1: 0, a2: 0, gain: 0 }))
+  const tune = (r: typeof state[number], freq: number, bandwidth: number) => {
+    const radius = Math.exp((-Math.PI * bandwidth) / sampleRate)
+    r.a1 = 2 * radius * Math.cos((2 * Math.PI * freq) / sampleRate)
+    r.a2 = -radius * radius
+    r.gain = 1 - radius
+  }
+  const resonate = (r: typeof state[number], x: number) => {
+    const y = r.gain * x + r.a1 * r.y1 + r.a2 * r.y2
+    r.y2 = r.y1
+    r.y1 = y
+    return y
+  }
+
+  let seed = 0x2f6b1d
+  const noise = () => {
+    seed ^= seed << 13
+    seed ^= seed >>> 17
+    seed ^= seed << 5
+    return ((seed >>> 0) / 0xffffffff) * 2 - 1
+  }
+
+  let phase = 0
+  let i = 0
+  for (const p of [...phonemes, { dur: 0.03 }] as Phoneme[]) {
+    const length = Math.round(p.dur * sampleRate)
+    for (let j = 0; j < length && i < out.length; j++, i++) {
+      const frac = j / length
+      if (p.formants) {
+        const end = p.glideTo ?? p.formants
+        for (let k = 0; k < 3; k++) {
+          const target = p.formants[k] + (end[k] - p.formants[k]) * frac
+          formants[k] += (target - formants[k]) * formantSmoothing
+        }
+      }
+      voiceAmp += ((p.voice ?? 0) - voiceAmp) * ampSmoothing
+      noiseAmp += ((p.noise ?? 0) - noiseAmp) * ampSmoothing
+      if (p.noiseBand) noiseBand = p.noiseBand
+
+      if (i % 32 === 0) {
+        for (let k = 0; k < 3; k++) tune(state[k], formants[k], bandwidths[k])
+        tune(state[3], noiseBand, noiseBand / 1.5)
+      }
+
+      // Falling pitch across the word sounds like a spoken count
+      const f0 = 140 - 35 * (i / out.length)
+      phase = (phase + f0 / sampleRate) % 1
+      const glottal = (2 * phase - 1) * voiceAmp
+      let sample = 0
+      for (let k = 0; k < 3; k++) sample += resonate(state[k], glottal) * weights[k]
+      sample += resonate(state[3], noise() * noiseAmp) * 0.5
+      out[i] = sample
+    }
+  }
+
+  let max = 0
+  for (const s of out) max = Math.max(max, Math.abs(s))
+  if (max > 0) for (let k = 0; k < out.length; k++) out[k] *= 0.9 / max
+  return out
+}
+
+// Returns a tick listener that speaks the count. One voice at a time: each
+// word cuts off the one before it, so fast 16ths stay intelligible.
+export function createVoiceCounter(ctx: BaseAudioContext, meter: Meter, subdivision: number) {
+  const buffers = new Map<string, AudioBuffer>()
+  for (let beat = 0; beat < meter.beats; beat++) {
+    for (let sub = 0; sub < subdivision; sub++) {
+      const word = wordForTick(beat, sub, subdivision, meter)
+      if (!word || buffers.has(word)) continue
+      const samples = renderWord(WORDS[word], ctx.sampleRate)
+      const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate)
+      buffer.copyToChannel(samples, 0)
+      buffers.set(word, buffer)
+    }
+  }
+  let previous: AudioBufferSourceNode | null = null
+
+  return ({ time, beat, sub, level }: TempoEngineEvents['tick']) => {
+    if (level === 'mute') return
+    const word = wordForTick(beat, sub, subdivision, meter)
+    const buffer = word && buffers.get(word)
+    if (!buffer) return
+    const source = ctx.createBufferSource()
+    const gain = ctx.createGain()
+    source.buffer = buffer
+    // Subdivision syllables sit under the numbers
+    gain.gain.value = sub === 0 ? 0.9 : 0.5
+    source.connect(gain)
+    gain.connect(ctx.destination)
+    previous?.stop(time)
+    source.start(time)
+    previous = source
+  }
+}
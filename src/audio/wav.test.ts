@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { encodeWav } from './wav'
+
+// Just the parts of an AudioBuffer the encoder reads
+const audioBuffer = (channels: number[][], sampleRate: number) => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  getChannelData: (c: number) => Float32Array.from(channels[c]),
+}) as unknown as AudioBuffer
+
+describe('WAV encoding', () => {
+  it('writes a 16-bit PCM header and interleaved, clipped samples', () => {
+    const wav = encodeWav(audioBuffer([[0, 1, -1, 2], [0.5, -0.5, 0, -3]], 48000))
+    const view = new DataView(wav)
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(wav, offset, 4))
+
+    expect(wav.byteLength).toBe(44 + 4 * 2 * 2)
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data'])
+    expect(view.getUint32(4, true)).toBe(wav.byteLength - 8)
+    expect(view.getUint16(20, true)).toBe(1)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(48000)
+    expect(view.getUint32(28, true)).toBe(48000 * 4)
+    expect(view.getUint16(32, true)).toBe(4)
+    expect(view.getUint16(34, true)).toBe(16)
+    expect(view.getUint32(40, true)).toBe(16)
+
+    const samples = Array.from({ length: 8 }, (_, i) => view.getInt16(44 + i * 2, true))
+    expect(samples).toEqual([0, 16383, 32767, -16384, -32768, 0, 32767, -32768])
+  })
+})
@@ -0,0 +1,37 @@
+// 16-bit PCM WAV, channels interleaved
+export function encodeWav(buffer: AudioBuffer): ArrayBuffer {
+  const channels = buffer.numberOfChannels
+  const frames = buffer.length
+  const bytesPerSample = 2
+  const dataSize = frames * channels * bytesPerSample
+  const out = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(out)
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i))
+  }
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true) // fmt chunk size
+  view.setUint16(20, 1, true)  // PCM
+  view.setUint16(22, channels, true)
+  view.setUint32(24, buffer.sampleRate, true)
+  view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true)
+  view.setUint16(32, channels * bytesPerSample, true)
+  view.setUint16(34, 8 * bytesPerSample, true)
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c))
+  let offset = 44
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, data[c][i]))
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+      offset += bytesPerSample
+    }
+  }
+  return out
+}
@@ -0,0 +1,119 @@
+import { SHORTCUTS } from '../hooks/useKeyboardShortcuts'
+import type { MidiStatus } from '../hooks/useMidiControl'
+import { MIDI_ACTIONS, formatBinding, type MidiAction, type MidiBindings } from '../midi'
+
+interface ControlsPanelProps {
+  midiStatus: MidiStatus
+  midiDevices: string[]
+  bindings: MidiBindings
+  learning: MidiAction | null
+  onConnect: () => void
+  onLearn: (action: MidiAction | null) => void
+  onClearBinding: (action: MidiAction) => void
+  keepAwake: boolean
+  onKeepAwakeChange: (keepAwake: boolean) => void
+  onClose: () => void
+}
+
+const STATUS_TEXT: Record<MidiStatus, string> = {
+  off: 'Not connected',
+  connecting: 'Connecting…',
+  ready: 'No devices found',
+  denied: 'MIDI access was blocked',
+  unsupported: 'This browser has no Web MIDI',
+}
+
+function ControlsPanel({
+  midiStatus,
+  midiDevices,
+  bindings,
+  learning,
+  onConnect,
+  onLearn,
+  onClearBinding,
+  keepAwake,
+  onKeepAwakeChange,
+  onClose,
+}: ControlsPanelProps) {
+  const midiReady = midiStatus === 'ready'
+  const wakeLockSupported = 'wakeLock' in navigator
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Controls</span>
+        <button className="panel-close" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="panel-body">
+        <div className="panel-section-label">Keyboard</div>
+        <div className="panel-list">
+          {SHORTCUTS.map((s) => (
+            <div key={s.keys} className="panel-row">
+              <span className="panel-row-name">{s.action}</span>
+              <span className="panel-row-value">{s.keys}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="panel-section-label">MIDI pedal / controller</div>
+        <div className="panel-row">
+          <span className="panel-row-name">
+            {midiReady && midiDevices.length > 0 ? midiDevices.join(', ') : STATUS_TEXT[midiStatus]}
+          </span>
+          {!midiReady && (
+            <button
+              className="panel-action"
+              onClick={onConnect}
+              disabled={midiStatus === 'connecting' || midiStatus === 'unsupported'}
+            >
+              Connect
+            </button>
+          )}
+        </div>
+        <div className="panel-list">
+          {MIDI_ACTIONS.map(({ action, label }) => {
+            const binding = bindings[action]
+            const isLearning = learning === action
+            return (
+              <div key={action} className="panel-row">
+                <span className="panel-row-name">{label}</span>
+                <span className="panel-row-actions">
+                  <button
+                    className={`panel-action ${isLearning ? 'listening' : ''}`}
+                    onClick={() => onLearn(isLearning ? null : action)}
+                    disabled={!midiReady}
+                  >
+                    {isLearning ? 'Press…' : 'Learn'}
+                  </button>
+                  {binding && (
+                    <button className="panel-row-delete" onClick={() => onClearBinding(action)}>×</button>
+                  )}
+                </span>
+                <span className="panel-row-meta">
+                  {isLearning ? 'Press a pedal, key or knob' : binding ? formatBinding(binding) : 'Not mapped'}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="panel-section-label">Screen</div>
+        <div className="panel-row">
+          <span className="panel-row-name">
+            {wakeLockSupported ? 'Keep the screen on while training' : 'This browser cannot keep the screen on'}
+          </span>
+          <button
+            className={`panel-action ${keepAwake && wakeLockSupported ? 'on' : ''}`}
+            onClick={() => onKeepAwakeChange(!keepAwake)}
+            disabled={!wakeLockSupported}
+          >
+            {keepAwake ? 'On' : 'Off'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ControlsPanel
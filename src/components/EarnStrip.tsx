@@ -0,0 +1,49 @@
+import type { TempoResult } from '../history'
+import { DROP_AFTER_MISSES } from '../hooks/useEarnBump'
+
+interface EarnStripProps {
+  isPlaying: boolean
+  confirmed: boolean
+  dropAfter: number // index into DROP_AFTER_MISSES
+  log: TempoResult[]
+  onConfirm: () => void
+  onDropAfterChange: (dropAfter: number) => void
+}
+
+// "Earn the bump" status: whether this interval has been rated clean yet,
+// and how each tempo of the session went
+function EarnStrip({ isPlaying, confirmed, dropAfter, log, onConfirm, onDropAfterChange }: EarnStripProps) {
+  return (
+    <div className="earn-strip">
+      <div className="progress-label">
+        <span>Earn the bump</span>
+        <span>{!isPlaying ? 'Rate each interval' : confirmed ? 'Rated clean' : 'Clean? Press C'}</span>
+      </div>
+      {log.length > 0 && (
+        <div className="earn-log">
+          {log.map((r) => (
+            <span key={r.bpm} className={`earn-log-entry ${r.passes > 0 ? 'passed' : ''}`}>
+              {r.bpm} <small>{r.passes}✓ {r.misses}✗</small>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="timing-controls">
+        <button className={`panel-action ${confirmed ? 'on' : ''}`} onClick={onConfirm} disabled={!isPlaying}>
+          Clean
+        </button>
+        {DROP_AFTER_MISSES.map((d, i) => (
+          <button
+            key={d.value}
+            className={`panel-action ${dropAfter === i ? 'on' : ''}`}
+            onClick={() => onDropAfterChange(i)}
+          >
+            {d.value === 0 ? 'Never drop' : `Drop after ${d.label}`}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default EarnStrip
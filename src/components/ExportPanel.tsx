@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import type { SessionEnd, SessionTimeline } from '../engine/timeline'
+
+interface ExportPanelProps {
+  summary: string
+  target: number | null // null when the mode has no target to stop at
+  onRenderAudio: (end: SessionEnd) => Promise<SessionTimeline>
+  onTempoMap: (end: SessionEnd) => SessionTimeline
+  onMidiFile: (end: SessionEnd) => SessionTimeline
+  onClose: () => void
+}
+
+// Session lengths, in minutes
+const DURATIONS = [1, 2, 5, 10, 15, 20]
+
+const formatDuration = (secs: number) => {
+  const m = Math.floor(secs / 60)
+  const s = Math.floor(secs % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+function ExportPanel({ summary, target, onRenderAudio, onTempoMap, onMidiFile, onClose }: ExportPanelProps) {
+  const [untilTarget, setUntilTarget] = useState(target !== null)
+  const [minutes, setMinutes] = useState(5)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const stopAtTarget = untilTarget && target !== null
+  const end: SessionEnd = stopAtTarget
+    ? { kind: 'target', bpm: target }
+    : { kind: 'duration', seconds: minutes * 60 }
+
+  const describe = (timeline: SessionTimeline) =>
+    `${formatDuration(timeline.duration)} · ${timeline.bars} bars · ${timeline.tempos.length} tempos`
+
+  const renderAudio = async () => {
+    setBusy(true)
+    setMessage('Rendering…')
+    try {
+      setMessage(`Saved WAV, ${describe(await onRenderAudio(end))}`)
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Render failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Export</span>
+        <button className="panel-close" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="panel-body">
+        <div className="panel-section-label">Session</div>
+        <div className="panel-row">
+          <span className="panel-row-name">{summary}</span>
+        </div>
+
+        <div className="panel-section-label">Stop</div>
+        <div className="setting-grid">
+          <button
+            className={`setting-btn ${stopAtTarget ? 'selected' : ''}`}
+            onClick={() => setUntilTarget(true)}
+            disabled={target === null}
+          >
+            <span className="setting-btn-value">At {target ?? '--'}</span>
+          </button>
+          {DURATIONS.map((m) => (
+            <button
+              key={m}
+              className={`setting-btn ${!stopAtTarget && minutes === m ? 'selected' : ''}`}
+              onClick={() => {
+                setUntilTarget(false)
+                setMinutes(m)
+              }}
+            >
+              <span className="setting-btn-value">{m}m</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {message && <div className="panel-message">{message}</div>}
+
+      <div className="panel-footer">
+        <button className="panel-action" onClick={renderAudio} disabled={busy}>Click track WAV</button>
+        <button
+          className="panel-action"
+          onClick={() => setMessage(`Saved tempo map, ${describe(onTempoMap(end))}`)}
+          disabled={busy}
+        >
+          Tempo map CSV
+        </button>
+        <button
+          className="panel-action"
+          onClick={() => setMessage(`Saved MIDI file, ${describe(onMidiFile(end))}`)}
+          disabled={busy}
+        >
+          MIDI file
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ExportPanel
@@ -0,0 +1,72 @@
+import { personalBests, type SessionRecord } from '../history'
+
+interface HistoryPanelProps {
+  records: SessionRecord[]
+  onClear: () => void
+  onClose: () => void
+}
+
+const formatDuration = (secs: number) => {
+  const m = Math.floor(secs / 60)
+  const s = Math.floor(secs % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+// Earned sessions also show how many intervals were rated clean
+const formatTempoLog = (log: SessionRecord['tempoLog']) => {
+  if (!log || log.length === 0) return ''
+  const passes = log.reduce((sum, r) => sum + r.passes, 0)
+  const total = log.reduce((sum, r) => sum + r.passes + r.misses, 0)
+  return ` · ${passes}/${total} clean`
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+function HistoryPanel({ records, onClear, onClose }: HistoryPanelProps) {
+  const bests = personalBests(records)
+  const recent = records.slice(-20).reverse()
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">History</span>
+        <button className="panel-close" onClick={onClose}>Close</button>
+      </div>
+
+      {records.length === 0 ? (
+        <div className="panel-empty">No sessions yet. Press Play and stop when you're done.</div>
+      ) : (
+        <div className="panel-body">
+          <div className="panel-section-label">Personal bests</div>
+          <div className="panel-list">
+            {bests.map((pb) => (
+              <div key={pb.exercise} className="panel-row">
+                <span className="panel-row-name">{pb.exercise}</span>
+                <span className="panel-row-value">{pb.peakBpm}</span>
+                <span className="panel-row-meta">
+                  wk {pb.thisWeekPeak ?? '--'} / prev {pb.lastWeekPeak ?? '--'}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="panel-section-label">Recent sessions</div>
+          <div className="panel-list">
+            {recent.map((r) => (
+              <div key={r.id} className="panel-row">
+                <span className="panel-row-name">{formatDate(r.startedAt)} {r.exercise}</span>
+                <span className="panel-row-value">{r.startBpm}→{r.peakBpm}</span>
+                <span className="panel-row-meta">{formatDuration(r.duration)} · {r.bars} bars{formatTempoLog(r.tempoLog)}</span>
+              </div>
+            ))}
+          </div>
+
+          <button className="panel-action" onClick={onClear}>Clear history</button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPanel
@@ -0,0 +1,116 @@
+import { useState, useRef } from 'react'
+import type { Preset } from '../presets'
+
+interface PresetsPanelProps {
+  presets: Preset[]
+  activePresetId: string | null
+  describe: (preset: Preset) => string
+  onSave: (name: string) => void
+  onLoad: (preset: Preset) => void
+  onDelete: (preset: Preset) => void
+  onExport: () => void
+  onImport: (text: string) => void // throws on an unusable file
+  onClose: () => void
+}
+
+function PresetsPanel({
+  presets,
+  activePresetId,
+  describe,
+  onSave,
+  onLoad,
+  onDelete,
+  onExport,
+  onImport,
+  onClose,
+}: PresetsPanelProps) {
+  const [name, setName] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const save = () => {
+    if (name.trim() === '') return
+    onSave(name)
+    setName('')
+    setMessage(null)
+  }
+
+  const importFile = async (file: File) => {
+    try {
+      onImport(await file.text())
+      setMessage(`Imported ${file.name}`)
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Import failed')
+    }
+  }
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Presets</span>
+        <button className="panel-close" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="panel-save">
+        <input
+          type="text"
+          className="panel-input"
+          placeholder="Name this setup"
+          value={name}
+          maxLength={60}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save() }}
+        />
+        <button className="panel-action" onClick={save} disabled={name.trim() === ''}>Save</button>
+      </div>
+
+      <div className="panel-body">
+        {presets.length === 0 ? (
+          <div className="panel-empty">No presets yet. Dial in a setup and save it.</div>
+        ) : (
+          <div className="panel-list">
+            {presets.map((p) => (
+              <div
+                key={p.id}
+                className={`panel-row panel-row-button ${p.id === activePresetId ? 'selected' : ''}`}
+                onClick={() => onLoad(p)}
+              >
+                <span className="panel-row-name">{p.name}</span>
+                <button
+                  className="panel-row-delete"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onDelete(p)
+                  }}
+                >
+                  ×
+                </button>
+                <span className="panel-row-meta">{describe(p)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {message && <div className="panel-message">{message}</div>}
+
+      <div className="panel-footer">
+        <button className="panel-action" onClick={onExport} disabled={presets.length === 0}>Export</button>
+        <button className="panel-action" onClick={() => fileInputRef.current?.click()}>Import</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default PresetsPanel
@@ -0,0 +1,221 @@
+import { useState } from 'react'
+import type { SegmentEnd } from '../engine/tempoEngine'
+import type { PracticeSettings } from '../settings'
+import {
+  SEGMENT_DURATIONS,
+  SEGMENT_BARS,
+  canEndAtTarget,
+  createRoutine,
+  describeEnd,
+  newSegment,
+  type Routine,
+  type RoutineSegment,
+} from '../routines'
+
+interface RoutinesPanelProps {
+  routines: Routine[]
+  activeRoutineId: string | null
+  currentSettings: PracticeSettings // what "Add current setup" captures
+  describe: (settings: PracticeSettings) => string
+  onChange: (routines: Routine[]) => void
+  onPlay: (routine: Routine) => void
+  onClose: () => void
+}
+
+// Tapping the value steps through the options for its kind
+function nextEnd(end: SegmentEnd): SegmentEnd {
+  if (end.kind === 'duration') {
+    const i = SEGMENT_DURATIONS.findIndex((d) => d.value === end.seconds)
+    return { kind: 'duration', seconds: SEGMENT_DURATIONS[(i + 1) % SEGMENT_DURATIONS.length].value }
+  }
+  if (end.kind === 'bars') {
+    const i = SEGMENT_BARS.findIndex((b) => b.value === end.bars)
+    return { kind: 'bars', bars: SEGMENT_BARS[(i + 1) % SEGMENT_BARS.length].value }
+  }
+  return end
+}
+
+const END_KINDS: { kind: SegmentEnd['kind']; label: string; initial: SegmentEnd }[] = [
+  { kind: 'duration', label: 'Time', initial: { kind: 'duration', seconds: 120 } },
+  { kind: 'bars', label: 'Bars', initial: { kind: 'bars', bars: 16 } },
+  { kind: 'target', label: 'Target', initial: { kind: 'target' } },
+]
+
+function RoutinesPanel({
+  routines,
+  activeRoutineId,
+  currentSettings,
+  describe,
+  onChange,
+  onPlay,
+  onClose,
+}: RoutinesPanelProps) {
+  const [name, setName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(activeRoutineId)
+  const editing = routines.find((r) => r.id === editingId) ?? null
+
+  const create = () => {
+    if (name.trim() === '') return
+    const routine = createRoutine(name)
+    onChange([...routines, routine])
+    setEditingId(routine.id)
+    setName('')
+  }
+
+  const updateSegments = (routine: Routine, segments: RoutineSegment[]) =>
+    onChange(routines.map((r) => (r.id === routine.id ? { ...r, segments } : r)))
+
+  const updateSegment = (routine: Routine, index: number, change: Partial<RoutineSegment>) =>
+    updateSegments(routine, routine.segments.map((s, i) => (i === index ? { ...s, ...change } : s)))
+
+  const moveSegment = (routine: Routine, index: number, by: number) => {
+    const to = index + by
+    if (to < 0 || to >= routine.segments.length) return
+    const segments = [...routine.segments]
+    ;[segments[index], segments[to]] = [segments[to], segments[index]]
+    updateSegments(routine, segments)
+  }
+
+  if (editing) {
+    return (
+      <div className="panel">
+        <div className="panel-header">
+          <span className="panel-title">{editing.name}</span>
+          <button className="panel-close" onClick={() => setEditingId(null)}>Back</button>
+        </div>
+
+        <div className="panel-body">
+          {editing.segments.length === 0 ? (
+            <div className="panel-empty">No segments yet. Dial in a setup and add it.</div>
+          ) : (
+            <div className="panel-list">
+              {editing.segments.map((segment, i) => (
+                <div key={i} className="panel-row">
+                  <input
+                    type="text"
+                    className="panel-input"
+                    placeholder={`${i + 1}. ${segment.rest ? 'Rest' : describe(segment.settings)}`}
+                    value={segment.name}
+                    maxLength={40}
+                    onChange={(e) => updateSegment(editing, i, { name: e.target.value })}
+                  />
+                  <span className="panel-row-actions">
+                    <button className="panel-row-delete" onClick={() => moveSegment(editing, i, -1)} disabled={i === 0}>
+                      ↑
+                    </button>
+                    <button
+                      className="panel-row-delete"
+                      onClick={() => moveSegment(editing, i, 1)}
+                      disabled={i === editing.segments.length - 1}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="panel-row-delete"
+                      onClick={() => updateSegments(editing, editing.segments.filter((_, j) => j !== i))}
+                    >
+                      ×
+                    </button>
+                  </span>
+                  <span className="panel-row-meta">{describe(segment.settings)}</span>
+                  <div className="segment-end">
+                    {END_KINDS.map(({ kind, label, initial }) => (
+                      <button
+                        key={kind}
+                        className={`panel-action ${segment.end.kind === kind ? 'on' : ''}`}
+                        onClick={() => segment.end.kind !== kind && updateSegment(editing, i, { end: initial })}
+                        disabled={kind === 'target' && !canEndAtTarget(segment.settings)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <button
+                      className="panel-action"
+                      onClick={() => updateSegment(editing, i, { end: nextEnd(segment.end) })}
+                      disabled={segment.end.kind === 'target'}
+                    >
+                      {describeEnd(segment.end)}
+                    </button>
+                    <button
+                      className={`panel-action ${segment.rest ? 'on' : ''}`}
+                      onClick={() => updateSegment(editing, i, { rest: !segment.rest })}
+                    >
+                      Rest
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="panel-footer">
+          <button
+            className="panel-action"
+            onClick={() => updateSegments(editing, [...editing.segments, newSegment(currentSettings)])}
+          >
+            Add current setup
+          </button>
+          <button className="panel-action" onClick={() => onPlay(editing)} disabled={editing.segments.length === 0}>
+            Use routine
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <span className="panel-title">Routines</span>
+        <button className="panel-close" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="panel-save">
+        <input
+          type="text"
+          className="panel-input"
+          placeholder="Name a new routine"
+          value={name}
+          maxLength={60}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') create() }}
+        />
+        <button className="panel-action" onClick={create} disabled={name.trim() === ''}>Create</button>
+      </div>
+
+      <div className="panel-body">
+        {routines.length === 0 ? (
+          <div className="panel-empty">No routines yet. Chain setups into a full warm-up.</div>
+        ) : (
+          <div className="panel-list">
+            {routines.map((r) => (
+              <div
+                key={r.id}
+                className={`panel-row panel-row-button ${r.id === activeRoutineId ? 'selected' : ''}`}
+                onClick={() => setEditingId(r.id)}
+              >
+                <span className="panel-row-name">{r.name}</span>
+                <button
+                  className="panel-row-delete"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onChange(routines.filter((other) => other !== r))
+                  }}
+                >
+                  ×
+                </button>
+                <span className="panel-row-meta">
+                  {r.segments.length} segment{r.segments.length === 1 ? '' : 's'}
+                  {r.segments.length > 0 && ` · ${r.segments.map((s) => describeEnd(s.end)).join(' → ')}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RoutinesPanel
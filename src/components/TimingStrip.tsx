@@ -0,0 +1,85 @@
+import type { BarTiming } from '../engine/timingAnalysis'
+import { TIMING_TOLERANCES, type MicStatus } from '../hooks/useMicTiming'
+
+interface TimingStripProps {
+  status: MicStatus
+  bars: BarTiming[]
+  gate: boolean
+  tolerance: number // index into TIMING_TOLERANCES
+  lastGate: boolean | null
+  onGateChange: (gate: boolean) => void
+  onToleranceChange: (tolerance: number) => void
+}
+
+const STATUS_TEXT: Partial<Record<MicStatus, string>> = {
+  starting: 'Opening mic…',
+  denied: 'Mic access was blocked',
+  unsupported: 'This browser has no mic input',
+}
+
+// Offsets past this fill the whole half-height of a bar
+const SCALE_MS = 60
+
+const formatOffset = (ms: number) => {
+  const rounded = Math.round(ms)
+  if (rounded === 0) return 'On time'
+  return `${Math.abs(rounded)} ms ${rounded < 0 ? 'early' : 'late'}`
+}
+
+// Per-bar timing from the mic: one column per bar, up for late, down for
+// early, brighter when the bar sat within the tolerance
+function TimingStrip({
+  status,
+  bars,
+  gate,
+  tolerance,
+  lastGate,
+  onGateChange,
+  onToleranceChange,
+}: TimingStripProps) {
+  const toleranceMs = TIMING_TOLERANCES[tolerance].value
+  const last = bars[bars.length - 1]
+
+  return (
+    <div className="timing-strip">
+      <div className="progress-label">
+        <span>
+          {STATUS_TEXT[status] ?? (gate && lastGate === false ? 'Timing · repeating tempo' : 'Timing')}
+        </span>
+        <span>{last ? `Bar ${last.bar + 1}: ${formatOffset(last.offsetMs)}` : status === 'on' ? 'Play along…' : ''}</span>
+      </div>
+      <div className="timing-bars">
+        {bars.map((b) => {
+          const height = Math.min(1, Math.abs(b.offsetMs) / SCALE_MS) * 50
+          return (
+            <div key={b.bar} className="timing-bar-slot">
+              <div
+                className={`timing-bar ${b.spreadMs <= toleranceMs ? 'in' : ''}`}
+                style={{
+                  height: `${Math.max(height, 2)}%`,
+                  [b.offsetMs < 0 ? 'top' : 'bottom']: '50%',
+                }}
+              />
+            </div>
+          )
+        })}
+      </div>
+      <div className="timing-controls">
+        <button className={`panel-action ${gate ? 'on' : ''}`} onClick={() => onGateChange(!gate)}>
+          Gate bumps
+        </button>
+        {TIMING_TOLERANCES.map((t, i) => (
+          <button
+            key={t.value}
+            className={`panel-action ${tolerance === i ? 'on' : ''}`}
+            onClick={() => onToleranceChange(i)}
+          >
+            {t.label} ms
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default TimingStrip
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { parseAccents, formatAccents, accentAt, withAccent, nextAccentLevel, type AccentLevel } from './accents'
+
+describe('accent grids', () => {
+  it('parses the compact text, reading unknown cells as normal', () => {
+    expect(parseAccents('')).toEqual([])
+    expect(parseAccents('An.-g.?')).toEqual([['accent', 'normal'], ['mute', 'ghost'], ['normal']])
+  })
+
+  it('formats equal grids equally, dropping trailing normal cells', () => {
+    expect(formatAccents([['accent', 'normal'], ['normal'], ['mute', 'normal'], ['normal', 'normal']])).toBe('A..-')
+    expect(formatAccents([['normal', 'normal'], ['normal']])).toBe('')
+  })
+
+  it('reads cells outside the grid as normal and resizes on edit', () => {
+    const grid = parseAccents('A.-')
+    expect(accentAt(grid, 1, 0)).toBe('mute')
+    expect(accentAt(grid, 5, 2)).toBe('normal')
+
+    // Shrunk to two beats of 8ths, with the off-beat of beat 2 ghosted
+    const edited = withAccent(parseAccents('A.-.g'), 2, 2, 1, 1, 'ghost')
+    expect(edited).toEqual([['accent', 'normal'], ['mute', 'ghost']])
+    expect(formatAccents(edited)).toBe('A.-g')
+  })
+
+  it('cycles through the levels in tap order', () => {
+    const levels: AccentLevel[] = ['normal', 'accent', 'ghost', 'mute']
+    expect(levels.map(nextAccentLevel)).toEqual(['accent', 'ghost', 'mute', 'normal'])
+  })
+})
@@ -0,0 +1,48 @@
+// Per-cell dynamics for the click grid, indexed [beat][subdivision]. Cells
+// outside the grid (after the meter or subdivision grew) play as 'normal'.
+export type AccentLevel = 'accent' | 'normal' | 'ghost' | 'mute'
+export type AccentGrid = AccentLevel[][]
+
+// Tap order in the editor
+export const ACCENT_CYCLE: AccentLevel[] = ['normal', 'accent', 'ghost', 'mute']
+
+// Compact text form for storage and links: one character per cell, beats
+// separated by dots, e.g. "An.-n.gn"; the empty string is all normal
+const LEVEL_CHARS: Record<AccentLevel, string> = { accent: 'A', normal: 'n', ghost: 'g', mute: '-' }
+const CHAR_LEVELS: Record<string, AccentLevel> = { A: 'accent', n: 'normal', g: 'ghost', '-': 'mute' }
+
+export function parseAccents(text: string): AccentGrid {
+  if (text === '') return []
+  return text.split('.').map((beat) => [...beat].map((c) => CHAR_LEVELS[c] ?? 'normal'))
+}
+
+// Trailing normal cells and beats are dropped so equal grids format equally
+export function formatAccents(grid: AccentGrid): string {
+  const beats = grid.map((subs) => {
+    let end = subs.length
+    while (end > 0 && subs[end - 1] === 'normal') end--
+    return subs.slice(0, end).map((level) => LEVEL_CHARS[level]).join('')
+  })
+  while (beats.length > 0 && beats[beats.length - 1] === '') beats.pop()
+  return beats.join('.')
+}
+
+export const accentAt = (grid: AccentGrid, beat: number, sub: number): AccentLevel =>
+  grid[beat]?.[sub] ?? 'normal'
+
+// Dense copy sized to the current meter and subdivision, with one cell changed
+export function withAccent(
+  grid: AccentGrid,
+  beats: number,
+  subdivision: number,
+  beat: number,
+  sub: number,
+  level: AccentLevel,
+): AccentGrid {
+  return Array.from({ length: beats }, (_, b) =>
+    Array.from({ length: subdivision }, (_, s) => (b === beat && s === sub ? level : accentAt(grid, b, s))),
+  )
+}
+
+export const nextAccentLevel = (level: AccentLevel): AccentLevel =>
+  ACCENT_CYCLE[(ACCENT_CYCLE.indexOf(level) + 1) % ACCENT_CYCLE.length]
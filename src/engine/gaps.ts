@@ -0,0 +1,18 @@
+// Bars the click drops out for, to train internal time: a fixed cycle of
+// sounding and silent bars, or a random share of bars left silent. Only the
+// clicks stop; beats, bars and the bump timer carry on through the gap.
+export type GapPattern =
+  | { kind: 'off' }
+  | { kind: 'cycle'; on: number; off: number } // `on` bars sounding, then `off` silent
+  | { kind: 'random'; chance: number }         // 0 to 1, per bar
+
+// Whether bar `index` (counted from the start of the segment) is silent.
+// The first bar always sounds, so the tempo is heard before any gap.
+export function isGapBar(pattern: GapPattern, index: number, random: () => number): boolean {
+  if (index === 0) return false
+  switch (pattern.kind) {
+    case 'off': return false
+    case 'cycle': return pattern.off > 0 && index % (pattern.on + pattern.off) >= pattern.on
+    case 'random': return random() < pattern.chance
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { parseMeter, formatMeter, groupStarts } from './meter'
+
+describe('meters', () => {
+  it('groups by the conventional feel unless told otherwise', () => {
+    expect(parseMeter('4/4')).toEqual({ beats: 4, noteValue: 4, grouping: [4] })
+    expect(parseMeter('6/8')!.grouping).toEqual([3, 3])
+    expect(parseMeter('7/8')!.grouping).toEqual([2, 2, 3])
+    expect(parseMeter('3/8')!.grouping).toEqual([3])
+    expect(parseMeter(' 7 / 8 (3+2+2) ')!.grouping).toEqual([3, 2, 2])
+    expect(parseMeter('5/4: 3+2')!.grouping).toEqual([3, 2])
+  })
+
+  it('rejects meters it cannot play', () => {
+    for (const text of ['', '4', '0/4', '25/4', '4/3', '7/8 2+2', '7/8 0+7', 'four/four']) {
+      expect(parseMeter(text)).toBeNull()
+    }
+  })
+
+  it('spells out only a grouping that differs from the default', () => {
+    expect(formatMeter(parseMeter('7/8 (2+2+3)')!)).toBe('7/8')
+    expect(formatMeter(parseMeter('7/8 3+2+2')!)).toBe('7/8 3+2+2')
+    expect(groupStarts(parseMeter('7/8 3+2+2')!)).toEqual([0, 3, 5])
+  })
+})
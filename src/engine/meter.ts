@@ -0,0 +1,54 @@
+// A time signature. The engine counts `beats` pulses per bar (6/8 is six
+// pulses, as it always has been); `grouping` splits them into the felt groups,
+// e.g. 7/8 as 2+2+3. Each group after the first gets a secondary accent.
+export interface Meter {
+  beats: number
+  noteValue: number
+  grouping: number[] // sums to `beats`
+}
+
+export const MAX_METER_BEATS = 24
+const NOTE_VALUES = [1, 2, 4, 8, 16, 32]
+
+// Conventional feel when no grouping is given: compound eighths in threes,
+// odd eighths as twos with a closing three, everything else one group
+export function defaultGrouping(beats: number, noteValue: number): number[] {
+  if (noteValue < 8 || beats <= 3) return [beats]
+  if (beats % 3 === 0) return Array(beats / 3).fill(3)
+  if (beats % 2 === 0) return Array(beats / 2).fill(2)
+  return [...Array((beats - 3) / 2).fill(2), 3]
+}
+
+// Parses "7/8", "7/8 2+2+3" or "7/8 (2+2+3)". Returns null for anything
+// unplayable, including a grouping that does not add up to the beat count.
+export function parseMeter(text: string): Meter | null {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)(?:\s*[\s:(]\s*(\d+(?:\s*\+\s*\d+)*)\s*\)?)?\s*$/.exec(text)
+  if (!match) return null
+  const beats = parseInt(match[1], 10)
+  const noteValue = parseInt(match[2], 10)
+  if (beats < 1 || beats > MAX_METER_BEATS || !NOTE_VALUES.includes(noteValue)) return null
+
+  if (!match[3]) return { beats, noteValue, grouping: defaultGrouping(beats, noteValue) }
+  const grouping = match[3].split('+').map((g) => parseInt(g, 10))
+  if (grouping.some((g) => g < 1) || grouping.reduce((a, b) => a + b, 0) !== beats) return null
+  return { beats, noteValue, grouping }
+}
+
+// Canonical text; the grouping is spelled out only when it differs from the default
+export function formatMeter(meter: Meter): string {
+  const base = `${meter.beats}/${meter.noteValue}`
+  const fallback = defaultGrouping(meter.beats, meter.noteValue)
+  const isDefault = fallback.length === meter.grouping.length && fallback.every((g, i) => g === meter.grouping[i])
+  return isDefault ? base : `${base} ${meter.grouping.join('+')}`
+}
+
+// Beat indexes that open a group, including beat 0
+export function groupStarts(meter: Meter): number[] {
+  const starts: number[] = []
+  let beat = 0
+  for (const size of meter.grouping) {
+    starts.push(beat)
+    beat += size
+  }
+  return starts
+}
@@ -0,0 +1,21 @@
+// A cross-rhythm layer over the main pulse: `notes` evenly spaced across
+// every `beats` main beats (3:2 is three notes in the time of two beats).
+export interface Polyrhythm {
+  notes: number
+  beats: number
+}
+
+// Where the layer's notes fall in a bar of `barBeats`, in beats from the
+// downbeat. Cycles start on the downbeat and every `beats` beats after it;
+// the bar cuts off a cycle running past its end, so the layer locks back
+// onto every downbeat whatever the meter or tempo does.
+export function polyPositions({ notes, beats }: Polyrhythm, barBeats: number): number[] {
+  const positions: number[] = []
+  for (let start = 0; start < barBeats; start += beats) {
+    for (let i = 0; i < notes; i++) {
+      const position = start + (i * beats) / notes
+      if (position < barBeats - 1e-9) positions.push(position)
+    }
+  }
+  return positions
+}
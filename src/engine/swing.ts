@@ -0,0 +1,18 @@
+// Swing stretches the first subdivision of each pair and shortens the second:
+// 0.5 is straight, about 0.67 a triplet shuffle, 0.75 a dotted 8th and 16th.
+// Only 8ths and 16ths swing, and a pair never crosses a beat, so every beat
+// (and the bumps on downbeats) stays on the straight grid.
+
+export const swings = (subdivision: number, swing: number) => subdivision % 2 === 0 && swing !== 0.5
+
+// How many straight subdivisions long the tick at `sub` is
+export function swingFactor(subdivision: number, swing: number, sub: number): number {
+  if (!swings(subdivision, swing)) return 1
+  return sub % 2 === 0 ? 2 * swing : 2 * (1 - swing)
+}
+
+// Where the tick at `sub` falls, in straight subdivisions from its beat
+export function swungPosition(subdivision: number, swing: number, sub: number): number {
+  if (!swings(subdivision, swing) || sub % 2 === 0) return sub
+  return sub - 1 + 2 * swing
+}
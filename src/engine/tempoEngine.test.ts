@@ -0,0 +1,478 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createTempoEngine,
+  type ClickType,
+  type EngineClock,
+  combineGates,
+  type EngineSettings,
+  type GateVerdict,
+  type TempoEngineEvents,
+} from './tempoEngine'
+import { parseMeter } from './meter'
+import { nextShapeBpm, curveBpm, type TempoShape } from './tempoShapes'
+import type { AccentLevel } from './accents'
+import { isGapBar, type GapPattern } from './gaps'
+import { polyPositions } from './polyrhythm'
+import { swingFactor, swungPosition } from './swing'
+
+// Virtual time for the scheduler: timers fire only when the test moves the
+// clock, in the order they fall due
+function createFakeClock() {
+  let now = 0
+  let nextHandle = 1
+  const timers = new Map<number, { at: number; callback: () => void }>()
+  const clock: EngineClock = {
+    now: () => now,
+    setTimeout(callback, ms) {
+      const handle = nextHandle++
+      timers.set(handle, { at: now + ms / 1000, callback })
+      return handle
+    },
+    clearTimeout: (handle) => { timers.delete(handle) },
+  }
+
+  // Runs every timer due up to `time`, then leaves the clock there
+  const advanceTo = (time: number) => {
+    for (;;) {
+      let due: [number, { at: number; callback: () => void }] | null = null
+      for (const entry of timers) {
+        if (entry[1].at <= time && (!due || entry[1].at < due[1].at)) due = entry
+      }
+      if (!due) break
+      timers.delete(due[0])
+      now = Math.max(now, due[1].at)
+      due[1].callback()
+    }
+    now = time
+  }
+
+  // Moves the clock without running anything, like a page frozen in the background
+  const freezeUntil = (time: number) => { now = time }
+
+  return { clock, advanceTo, freezeUntil }
+}
+
+const settings = (overrides: Partial<EngineSettings> = {}): EngineSettings => ({
+  startBpm: 120,
+  increment: 5,
+  bumpInterval: 4,
+  intervalUnit: 'seconds',
+  meter: parseMeter('4/4')!,
+  subdivision: 1,
+  swing: 0.5,
+  shape: { kind: 'ramp-up', target: null },
+  accents: [],
+  gaps: { kind: 'off' },
+  poly: null,
+  countInBars: 0,
+  ...overrides,
+})
+
+// An engine on a fake clock, recording its clicks and events
+function createSession() {
+  const fake = createFakeClock()
+  const clicks: { time: number; clickType: ClickType; level: AccentLevel }[] = []
+  const engine = createTempoEngine({
+    clock: fake.clock,
+    onClick: (time, clickType, level) => clicks.push({ time, clickType, level }),
+  })
+  const record = <K extends keyof TempoEngineEvents>(type: K) => {
+    const events: TempoEngineEvents[K][] = []
+    engine.on(type, (event) => events.push(event))
+    return events
+  }
+  return { ...fake, engine, clicks, record }
+}
+
+const times = (events: { time: number }[]) => events.map((e) => e.time)
+
+describe('tempo engine', () => {
+  it('bumps on the first downbeat after the interval', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    engine.start(settings())
+    advanceTo(12)
+
+    expect(bumps[0]).toMatchObject({ time: 4, bpm: 125, previousBpm: 120, step: 1 })
+    // 4s more at 125 BPM runs out mid-bar; the bar ends at 4 + 3 × 1.92
+    expect(bumps[1].time).toBeCloseTo(9.76, 9)
+    expect(bumps[1].bpm).toBe(130)
+  })
+
+  it('shifts the schedule over a pause without doubling any tick', () => {
+    const { engine, advanceTo, record } = createSession()
+    const ticks = record('tick')
+    engine.start(settings())
+    advanceTo(1.3)
+    engine.pause()
+    advanceTo(3.3)
+    expect(ticks).toHaveLength(3) // nothing scheduled while paused
+    engine.resume()
+    advanceTo(5)
+
+    // The 1.5s tick, never sounded, plays 2s late; the rest follow on
+    expect(times(ticks)).toEqual([0, 0.5, 1, 3.5, 4, 4.5, 5])
+    expect(new Set(ticks.map((t) => t.beat + t.bar * 4)).size).toBe(ticks.length)
+  })
+
+  it('carries on from now after a stall instead of firing the missed ticks', () => {
+    const { engine, advanceTo, freezeUntil, record } = createSession()
+    const ticks = record('tick')
+    engine.start(settings())
+    advanceTo(1.3)
+    freezeUntil(4.3)
+    advanceTo(5)
+
+    expect(times(ticks)).toEqual([0, 0.5, 1, 4.3, 4.8])
+    // The frozen time counts as a pause, not as playing time
+    expect(engine.getElapsed()).toBeCloseTo(2.2, 9)
+  })
+
+  it('tells listeners once when a running session stops', () => {
+    const { engine, advanceTo, record } = createSession()
+    const stops = record('stop')
+    engine.stop()
+    engine.start(settings())
+    advanceTo(3)
+    engine.stop()
+    engine.stop()
+    expect(stops).toEqual([{ time: 3 }])
+  })
+
+  it('stops the elapsed time while paused', () => {
+    const { engine, advanceTo } = createSession()
+    engine.start(settings())
+    advanceTo(2)
+    engine.pause()
+    advanceTo(10)
+    expect(engine.getElapsed()).toBe(2)
+    engine.resume()
+    advanceTo(11)
+    expect(engine.getElapsed()).toBe(3)
+  })
+})
+
+describe('tempo shapes', () => {
+  // The tempos a shape steps through over `bumps` bumps
+  const walk = (shape: TempoShape, startBpm: number, increment: number, bumps: number) => {
+    const tempos: number[] = []
+    let bpm = startBpm
+    for (let step = 0; step < bumps; step++) {
+      bpm = nextShapeBpm(shape, { bpm, startBpm, increment, step })
+      tempos.push(bpm)
+    }
+    return tempos
+  }
+
+  it('climbs and drops back in a sawtooth', () => {
+    expect(walk({ kind: 'sawtooth', climbSteps: 3, dropSteps: 1 }, 100, 5, 8))
+      .toEqual([105, 110, 115, 110, 115, 120, 125, 120])
+  })
+
+  it('goes up to the peak and back down to the start in a pyramid', () => {
+    expect(walk({ kind: 'pyramid', peak: 115 }, 100, 5, 8))
+      .toEqual([105, 110, 115, 110, 105, 100, 100, 100])
+  })
+
+  it('ramps down to a floor and holds there', () => {
+    expect(walk({ kind: 'ramp-down', target: 90 }, 100, 4, 5)).toEqual([96, 92, 90, 90, 90])
+  })
+})
+
+describe('bar intervals', () => {
+  it('bumps after a number of bars, whatever their length', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    engine.start(settings({ intervalUnit: 'bars', bumpInterval: 2 }))
+    advanceTo(10)
+
+    expect(bumps[0]).toMatchObject({ time: 4, bpm: 125 })
+    expect(bumps[1].time).toBeCloseTo(4 + 2 * 1.92, 9)
+  })
+
+  it('counts down in bars, with progress through the bar', () => {
+    const { engine, advanceTo, record } = createSession()
+    const countdowns = record('countdown')
+    engine.start(settings({ intervalUnit: 'bars', bumpInterval: 2 }))
+    advanceTo(4.5)
+
+    const at = (time: number) => countdowns.find((c) => Math.abs(c.time - time) < 1e-9)
+    expect(at(0)).toMatchObject({ countdown: 2, progress: 0 })
+    expect(at(2)).toMatchObject({ countdown: 1, progress: 0.5 })
+    expect(at(3)).toMatchObject({ countdown: 1, progress: 0.75 })
+    expect(at(4)).toMatchObject({ countdown: 2, progress: 0 }) // bumped, the next interval starts
+  })
+})
+
+describe('accelerando', () => {
+  it('spaces every tick by the tempo curve', () => {
+    const shape = { kind: 'accelerando', target: 120, duration: 60, curve: 'linear' } as const
+    const { engine, advanceTo, record } = createSession()
+    const ticks = record('tick')
+    const bumps = record('bump')
+    engine.start(settings({ startBpm: 60, shape }))
+    advanceTo(70)
+
+    expect(bumps).toHaveLength(0)
+    for (let i = 1; i < ticks.length; i++) {
+      const { time, bpm } = ticks[i - 1]
+      expect(bpm).toBeCloseTo(curveBpm(shape, 60, time), 9)
+      // The tempo halfway to the next tick sets the gap
+      const gap = ticks[i].time - time
+      expect(gap).toBeCloseTo(60 / curveBpm(shape, 60, time + gap / 2), 3)
+    }
+    // Held at the target once the ramp is over
+    const last = ticks.slice(-2)
+    expect(last[1].time - last[0].time).toBeCloseTo(0.5, 9)
+  })
+
+  it('changes by the same ratio each second on an exponential curve', () => {
+    const shape = { kind: 'accelerando', target: 120, duration: 60, curve: 'exponential' } as const
+    expect(curveBpm(shape, 60, 30)).toBeCloseTo(Math.sqrt(60 * 120), 9)
+    expect(curveBpm(shape, 60, 90)).toBe(120)
+  })
+})
+
+describe('manual tempo control', () => {
+  it('bumps now on the next downbeat and restarts the interval there', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    engine.start(settings())
+    advanceTo(1.1)
+    engine.bumpNow()
+    expect(engine.getSnapshot().bumpPending).toBe(true)
+    advanceTo(8)
+
+    expect(bumps[0]).toMatchObject({ time: 2, bpm: 125 })
+    expect(bumps[1].time).toBeCloseTo(2 + 3 * 1.92, 9)
+  })
+
+  it('steps back one increment on the next downbeat', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    engine.start(settings())
+    advanceTo(5) // bumped to 125 at 4s
+    engine.stepBack()
+    advanceTo(6)
+
+    expect(bumps[1]).toMatchObject({ bpm: 120, previousBpm: 125, step: 0 })
+    expect(bumps[1].time).toBeCloseTo(4 + 1.92, 9)
+  })
+
+  it('freezes the interval on a hold and picks it up on release', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    engine.start(settings())
+    advanceTo(1.1)
+    engine.setHold(true)
+    advanceTo(20)
+
+    // Held from the 2s downbeat with 2s of the interval played
+    expect(bumps).toHaveLength(0)
+    expect(engine.getSnapshot()).toMatchObject({ held: true, countdown: 2, progress: 0.5 })
+
+    engine.setHold(false)
+    advanceTo(25)
+    // Released on the 22s downbeat; the other 2s run out on the 24s one
+    expect(bumps).toHaveLength(1)
+    expect(bumps[0]).toMatchObject({ time: 24, bpm: 125 })
+  })
+
+  it('freezes a bar interval in bars', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    engine.start(settings({ intervalUnit: 'bars', bumpInterval: 4 }))
+    advanceTo(1.1)
+    engine.setHold(true)
+    advanceTo(20.1)
+    expect(engine.getSnapshot().countdown).toBe(3)
+
+    engine.setHold(false)
+    advanceTo(30)
+    // One bar played before the hold (from 2s), three after the release (at 22s)
+    expect(bumps[0]).toMatchObject({ time: 28, bpm: 125 })
+  })
+})
+
+describe('bump gates', () => {
+  it('replays an interval on repeat and steps back on drop', () => {
+    const { engine, advanceTo, record } = createSession()
+    const bumps = record('bump')
+    const gates = record('gate')
+    const verdicts: GateVerdict[] = ['repeat', 'pass', 'drop']
+    const intervals: { start: number; time: number; bpm: number }[] = []
+    engine.setBumpGate((interval) => {
+      intervals.push(interval)
+      return verdicts.shift() ?? 'pass'
+    })
+    engine.start(settings())
+    advanceTo(14)
+
+    // 4s at 120 again, then up to 125, then 4s of 1.92s bars at 125 and back down
+    expect(gates.map((g) => [g.verdict, g.bpm])).toEqual([['repeat', 120], ['pass', 120], ['drop', 125]])
+    expect(intervals.map((i) => i.start)).toEqual([0, 4, 8])
+    expect(bumps).toHaveLength(2)
+    expect(bumps[0]).toMatchObject({ time: 8, bpm: 125, previousBpm: 120, step: 1 })
+    expect(bumps[1].time).toBeCloseTo(8 + 3 * 1.92, 9)
+    expect(bumps[1]).toMatchObject({ bpm: 120, previousBpm: 125, step: 0 })
+  })
+
+  it('judges only the playing since the release after a hold', () => {
+    const { engine, advanceTo } = createSession()
+    const intervals: { start: number; time: number }[] = []
+    engine.setBumpGate((interval) => {
+      intervals.push(interval)
+      return 'pass'
+    })
+    engine.start(settings())
+    advanceTo(1.1)
+    engine.setHold(true)
+    advanceTo(10.1)
+    engine.setHold(false)
+    advanceTo(14.1)
+
+    // Held from 2s to 12s with 2s of the interval played; the other 2s run to 14s
+    expect(intervals).toEqual([{ start: 12, time: 14, bpm: 120 }])
+  })
+
+  it('lets the strictest of several gates win', () => {
+    const interval = { start: 0, time: 4, bpm: 120 }
+    const gate = (verdict: GateVerdict) => () => verdict
+    expect(combineGates([null, null])).toBeNull()
+    expect(combineGates([gate('pass'), null])!(interval)).toBe('pass')
+    expect(combineGates([gate('pass'), gate('repeat')])!(interval)).toBe('repeat')
+    expect(combineGates([gate('drop'), gate('repeat')])!(interval)).toBe('drop')
+  })
+})
+
+describe('gap bars', () => {
+  const gapBars = (pattern: GapPattern, bars: number, random = () => 0) =>
+    Array.from({ length: bars }, (_, i) => isGapBar(pattern, i, random))
+
+  it('cycles sounding and silent bars from the start of the segment', () => {
+    expect(gapBars({ kind: 'cycle', on: 2, off: 2 }, 8)).toEqual([false, false, true, true, false, false, true, true])
+    expect(gapBars({ kind: 'cycle', on: 1, off: 1 }, 4)).toEqual([false, true, false, true])
+    expect(gapBars({ kind: 'cycle', on: 4, off: 0 }, 4)).toEqual([false, false, false, false])
+    expect(gapBars({ kind: 'off' }, 4)).toEqual([false, false, false, false])
+  })
+
+  it('leaves random bars silent, but never the first', () => {
+    const rolls = [0.1, 0.9, 0.3]
+    expect(gapBars({ kind: 'random', chance: 0.5 }, 4, () => rolls.shift()!)).toEqual([false, true, false, true])
+    expect(rolls).toHaveLength(0)
+  })
+
+  it('drops the clicks of a gap bar but keeps the bump timer running', () => {
+    const { engine, advanceTo, record, clicks } = createSession()
+    const beats = record('beat')
+    const bumps = record('bump')
+    engine.start(settings({ gaps: { kind: 'cycle', on: 2, off: 2 } }))
+    advanceTo(9.9)
+
+    // Bars 2 and 3 are silent; the bump at 4s lands in them, so they run 4s to 7.84s
+    const silentBars = new Set(beats.filter((b) => b.silent).map((b) => b.bar))
+    expect([...silentBars]).toEqual([2, 3])
+    expect(clicks.filter((c) => c.time >= 4 && c.time < 7.84 - 1e-9)).toHaveLength(0)
+    expect(clicks.find((c) => c.time > 4)!.time).toBeCloseTo(7.84, 9)
+    expect(bumps[0]).toMatchObject({ time: 4, bpm: 125 })
+  })
+})
+
+describe('polyrhythm', () => {
+  it('cuts a cycle off at the bar line', () => {
+    const third = 1 / 3
+    const closeTo = (values: number[]) => values.map((v) => expect.closeTo(v, 9))
+    expect(polyPositions({ notes: 3, beats: 2 }, 4)).toEqual(closeTo([0, 2 * third, 4 * third, 2, 2 + 2 * third, 2 + 4 * third]))
+    // 3/4: the second cycle runs past beat 3 and loses its last note
+    expect(polyPositions({ notes: 3, beats: 2 }, 3)).toEqual(closeTo([0, 2 * third, 4 * third, 2, 2 + 2 * third]))
+    expect(polyPositions({ notes: 5, beats: 4 }, 4)).toEqual(closeTo([0, 0.8, 1.6, 2.4, 3.2]))
+    expect(polyPositions({ notes: 7, beats: 4 }, 2)).toEqual(closeTo([0, 4 / 7, 8 / 7, 12 / 7]))
+  })
+
+  it('locks the layer back onto every downbeat across a bump', () => {
+    const { engine, advanceTo, record } = createSession()
+    const poly = record('poly')
+    engine.start(settings({ meter: parseMeter('3/4')!, bumpInterval: 3, poly: { notes: 3, beats: 2 } }))
+    advanceTo(4.4)
+
+    // 1.5s bars at 120, then 1.44s bars from the bump at 3s
+    const bar = (n: number) => poly.filter((p) => p.bar === n)
+    expect(bar(0).map((p) => p.count)).toEqual([5, 5, 5, 5, 5])
+    expect(times(bar(0))).toEqual([0, 0.5 * (2 / 3), 0.5 * (4 / 3), 1, 0.5 * (8 / 3)].map((t) => expect.closeTo(t, 9)))
+    expect(bar(1)[0].time).toBe(1.5)
+    expect(bar(2)[0].time).toBe(3)
+    expect(times(bar(2)).map((t) => t - 3)).toEqual([0, 0.48 * (2 / 3), 0.48 * (4 / 3), 0.96, 0.48 * (8 / 3)].map((t) => expect.closeTo(t, 9)))
+  })
+})
+
+describe('swing', () => {
+  it('stretches the first of each pair and leaves triplets straight', () => {
+    expect([0, 1, 2, 3].map((sub) => swingFactor(4, 0.75, sub))).toEqual([1.5, 0.5, 1.5, 0.5])
+    expect([0, 1, 2].map((sub) => swingFactor(3, 0.75, sub))).toEqual([1, 1, 1])
+    expect([0, 1].map((sub) => swingFactor(2, 0.5, sub))).toEqual([1, 1])
+    expect([0, 1, 2, 3].map((sub) => swungPosition(4, 0.75, sub))).toEqual([0, 1.5, 2, 3.5])
+  })
+
+  it('keeps every beat on the straight grid across a bump', () => {
+    const { engine, advanceTo, record } = createSession()
+    const ticks = record('tick')
+    const bumps = record('bump')
+    engine.start(settings({ subdivision: 2, swing: 0.66, intervalUnit: 'bars', bumpInterval: 1 }))
+    advanceTo(3.8)
+
+    // 0.5s beats at 120, then 0.48s beats from the bump on the 2s downbeat
+    const onBeat = ticks.filter((t) => t.sub === 0)
+    const offBeat = ticks.filter((t) => t.sub === 1)
+    expect(bumps[0]).toMatchObject({ time: 2, bpm: 125 })
+    expect(times(onBeat)).toEqual([0, 0.5, 1, 1.5, 2, 2.48, 2.96, 3.44].map((t) => expect.closeTo(t, 9)))
+    expect(times(offBeat)).toEqual(
+      [0.33, 0.83, 1.33, 1.83, 2 + 0.3168, 2.48 + 0.3168, 2.96 + 0.3168, 3.44 + 0.3168].map((t) => expect.closeTo(t, 9)),
+    )
+  })
+})
+
+describe('routines', () => {
+  it('hands over to the next segment on a downbeat, by each kind of end', () => {
+    const { engine, advanceTo, record, clicks } = createSession()
+    const segments = record('segment')
+    const complete = record('complete')
+    const ticks = record('tick')
+    engine.startRoutine([
+      // 2s bars, no bump: 5s are up during the third bar, which plays out
+      { settings: settings({ bumpInterval: 60 }), end: { kind: 'duration', seconds: 5 }, rest: false },
+      // 2s bars of 3/4 at 90
+      { settings: settings({ startBpm: 90, meter: parseMeter('3/4')! }), end: { kind: 'bars', bars: 2 }, rest: false },
+      // Up to 130, then a full interval there, all without a click
+      {
+        settings: settings({ shape: { kind: 'ramp-up', target: 130 } }),
+        end: { kind: 'target' },
+        rest: true,
+      },
+    ])
+    advanceTo(40)
+
+    expect(segments.map((e) => [e.index, e.bpm])).toEqual([[1, 90], [2, 120]])
+    expect(segments[0].time).toBe(6)
+    expect(segments[1].time).toBeCloseTo(10, 9)
+    expect(ticks.find((t) => t.time === 6)).toMatchObject({ beat: 0, bar: 3 })
+    // Bumps at 14s (125) and 19.76s (130), then 4s at 130 ends with its bar
+    const end = 19.76 + 3 * (240 / 130)
+    expect(complete).toHaveLength(1)
+    expect(complete[0].time).toBeCloseTo(end, 9)
+    expect(engine.getSnapshot()).toMatchObject({ complete: true, segment: 2, segmentProgress: 1 })
+
+    // Nothing is scheduled past the end, and the rest stays silent
+    expect(ticks[ticks.length - 1].time).toBeLessThan(end)
+    expect(clicks.filter((c) => c.time >= segments[1].time)).toHaveLength(0)
+    expect(ticks.filter((t) => t.time >= segments[1].time).every((t) => t.level === 'mute')).toBe(true)
+  })
+
+  it('plays on until stopped when a segment has no end', () => {
+    const { engine, advanceTo, record } = createSession()
+    const complete = record('complete')
+    engine.start(settings())
+    advanceTo(120)
+    expect(complete).toHaveLength(0)
+    expect(engine.getSnapshot().isRunning).toBe(true)
+  })
+})
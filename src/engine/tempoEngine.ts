@@ -0,0 +1,600 @@
+import { MAX_BPM } from '../settings'
+import { nextShapeBpm, curveBpm, MIN_BPM, type TempoShape } from './tempoShapes'
+import { groupStarts, type Meter } from './meter'
+import { accentAt, type AccentGrid, type AccentLevel } from './accents'
+import { isGapBar, type GapPattern } from './gaps'
+import { polyPositions, type Polyrhythm } from './polyrhythm'
+import { swings, swingFactor } from './swing'
+
+// 'accent' opens a beat group other than the first (the 3 in 7/8 as 2+2+3);
+// 'poly' is a note of the cross-rhythm layer
+export type ClickType = 'downbeat' | 'accent' | 'beat' | 'sub' | 'poly'
+export type IntervalUnit = 'seconds' | 'bars'
+
+// Source of time for the scheduler. `now` is in seconds on the same timeline
+// the click sink schedules against (AudioContext time in the browser).
+export interface EngineClock {
+  now(): number
+  setTimeout(callback: () => void, ms: number): number
+  clearTimeout(handle: number): void
+}
+
+// Receives every audible click, ahead of time. Muted cells never reach it.
+export type ClickSink = (time: number, clickType: ClickType, level: AccentLevel) => void
+
+export interface EngineSettings {
+  startBpm: number
+  increment: number     // BPM step per bump
+  bumpInterval: number  // active playing time between bumps, in intervalUnit
+  intervalUnit: IntervalUnit
+  meter: Meter
+  subdivision: number   // ticks per beat
+  swing: number         // 0.5 straight to 0.75; 8ths and 16ths only
+  shape: TempoShape
+  accents: AccentGrid
+  gaps: GapPattern      // bars whose clicks drop out
+  poly: Polyrhythm | null // cross-rhythm layer, locked to the bar
+  countInBars: number   // bars of plain beats before the session (and bump timer) starts
+}
+
+// When a routine segment hands over to the next, checked on each downbeat.
+// 'target' ends once the shape has settled on its target and played one full
+// interval there (an accelerando ends as its ramp does).
+export type SegmentEnd =
+  | { kind: 'duration'; seconds: number } // active playing time
+  | { kind: 'bars'; bars: number }
+  | { kind: 'target' }
+
+// One block of a routine. A rest keeps time (beats, bars, events) without
+// sounding any clicks.
+export interface EngineSegment {
+  settings: EngineSettings
+  end: SegmentEnd | null // null plays on until stopped
+  rest: boolean
+}
+
+// Consulted on the downbeat where an automatic bump is due: 'pass' bumps,
+// 'repeat' plays the interval again at the same tempo, 'drop' steps back one
+// increment. `start` is the clock time of the last bump, or of the release
+// if the tempo was held since: playing during a hold doesn't count.
+export type GateVerdict = 'pass' | 'repeat' | 'drop'
+export type BumpGate = (interval: { start: number; time: number; bpm: number }) => GateVerdict
+
+// Several gates ruling together; each one hears every interval, and the
+// strictest verdict wins
+export function combineGates(gates: (BumpGate | null)[]): BumpGate | null {
+  const active = gates.filter((g): g is BumpGate => g !== null)
+  if (active.length <= 1) return active[0] ?? null
+  return (interval) => {
+    const verdicts = active.map((gate) => gate(interval))
+    return verdicts.includes('drop') ? 'drop' : verdicts.includes('repeat') ? 'repeat' : 'pass'
+  }
+}
+
+export interface TempoEngineEvents {
+  tick: {
+    time: number; beat: number; sub: number; bar: number; bpm: number
+    clickType: ClickType; level: AccentLevel; countIn: boolean
+  }
+  beat: {
+    time: number; beat: number; bar: number; bpm: number; isGroupStart: boolean; countIn: boolean
+    silent: boolean // a gap bar or a rest: the beat keeps time without a click
+  }
+  bar: { time: number; bar: number; bpm: number }
+  // A cross-rhythm note, `position` beats into the bar; `index` of `count` in the bar
+  poly: { time: number; bar: number; position: number; index: number; count: number; level: AccentLevel }
+  bump: { time: number; bpm: number; previousBpm: number; step: number }
+  countdown: { time: number; countdown: number; progress: number; ready: boolean; nextDelta: number }
+  gate: { time: number; bpm: number; verdict: GateVerdict } // a bump gate ruled on an interval
+  segment: { time: number; index: number; bpm: number } // a routine moved on to segment `index`
+  complete: { time: number } // the last segment ended; nothing is scheduled past `time`
+  stop: { time: number } // stopped by the caller; nothing more is scheduled
+}
+
+export type TempoEngineEvent = keyof TempoEngineEvents
+type Listener<K extends TempoEngineEvent> = (event: TempoEngineEvents[K]) => void
+
+export interface EngineSnapshot {
+  isRunning: boolean
+  isPaused: boolean
+  countingIn: boolean
+  bpm: number
+  peakBpm: number
+  beat: number
+  sub: number
+  bar: number
+  countdown: number   // seconds or bars until the next bump, per intervalUnit
+  progress: number
+  nextDelta: number // BPM change the next bump will apply; 0 while the shape holds
+  held: boolean     // automatic bumps frozen by setHold
+  segment: number   // index of the routine segment playing
+  segmentProgress: number // 0 to 1 through the segment, by its end condition
+  complete: boolean
+  // Manual requests still waiting for their downbeat
+  holdPending: boolean
+  bumpPending: boolean
+  stepBackPending: boolean
+}
+
+export interface TempoEngine {
+  start(settings: EngineSettings): void
+  // Plays the segments back to back, each taking over on a downbeat. The
+  // count-in (from the first segment's settings) plays once, up front.
+  startRoutine(segments: EngineSegment[]): void
+  pause(): void
+  resume(): void
+  stop(): void
+  // Takes effect from the next scheduled tick, so the grid can be edited live
+  setAccents(accents: AccentGrid): void
+  // Manual tempo control, each applied on the next downbeat. bumpNow skips
+  // the rest of the interval; stepBack drops one increment and restarts it;
+  // setHold freezes the interval (and so the automatic bumps) where it is.
+  bumpNow(): void
+  stepBack(): void
+  setHold(hold: boolean): void
+  // Lets something outside the engine (timing analysis, say) hold back the
+  // automatic bumps; manual bumps always go through
+  setBumpGate(gate: BumpGate | null): void
+  on<K extends TempoEngineEvent>(type: K, listener: Listener<K>): () => void
+  getSnapshot(): EngineSnapshot
+  // Seconds of active (unpaused) playing time since start
+  getElapsed(): number
+}
+
+export interface TempoEngineOptions {
+  clock: EngineClock
+  onClick: ClickSink
+  lookahead?: number        // seconds scheduled ahead of the clock
+  scheduleInterval?: number // ms between scheduler passes
+  random?: () => number     // picks random gap bars; 0 to 1 like Math.random
+}
+
+export function createTempoEngine({
+  clock,
+  onClick,
+  lookahead = 0.1,
+  scheduleInterval = 25,
+  random = Math.random,
+}: TempoEngineOptions): TempoEngine {
+  const listeners: { [K in TempoEngineEvent]: Set<Listener<K>> } = {
+    tick: new Set(),
+    beat: new Set(),
+    bar: new Set(),
+    poly: new Set(),
+    bump: new Set(),
+    countdown: new Set(),
+    gate: new Set(),
+    segment: new Set(),
+    complete: new Set(),
+    stop: new Set(),
+  }
+
+  const emit = <K extends TempoEngineEvent>(type: K, event: TempoEngineEvents[K]) => {
+    for (const listener of listeners[type]) listener(event)
+  }
+
+  let settings: EngineSettings | null = null // the current segment's
+  let segments: EngineSegment[] = []
+  let segmentIndex = 0
+  let segmentStartTime = 0 // clock time the segment took over
+  let segmentStartBar = 0
+  let segmentPausedAtStart = 0 // totalPaused when the segment took over
+  let segmentProgress = 0
+  let complete = false
+  let bumpGate: BumpGate | null = null
+  let accentBeats = new Set<number>() // group starts after beat 0
+  let timer: number | null = null
+  let isRunning = false
+  let isPaused = false
+
+  let bpm = 0
+  let peakBpm = 0
+  let beat = 0
+  let sub = 0 // subdivision position within a beat
+  let bar = 0 // completed measures
+  let silentBar = false // the current bar is a gap, its clicks dropped
+  let polyBar: number[] = [] // cross-rhythm positions in the current bar, in beats
+  let nextNoteTime = 0
+  let startTime = 0
+  // Time-based BPM increment tracking
+  let lastBumpTime = 0 // clock time of the last BPM bump
+  let lastBumpBar = 0 // bar index of the last BPM bump, for bar intervals
+  let gateStart = 0 // clock time a bump gate judges the playing from
+  let pausedSinceBump = 0 // paused or stalled time since the last bump
+  let totalPaused = 0 // paused or stalled time since start, for elapsed display
+  let pauseStartTime = 0
+  let bumpReady = false // true once interval elapsed, waiting for downbeat
+  let bumpRequested = false // bumpNow requested, waiting for downbeat
+  let stepBackPending = false // stepBack requested, waiting for downbeat
+  let held = false
+  let holdRequested = false
+  let heldTime = 0 // interval progress frozen at the hold, in seconds
+  let heldBars = 0 // ... and in bars
+  let countInLeft = 0 // count-in bars still to play
+  let countdown = 0
+  let progress = 0
+  let step = 0 // bumps applied so far
+  let nextDelta = 0
+
+  // Active playing time since the current segment took over
+  const segmentTime = (time: number) => time - segmentStartTime - (totalPaused - segmentPausedAtStart)
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clock.clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  // Count-in: main beats only, no bars counted, no bump timer
+  const scheduleCountInBeat = (s: EngineSettings) => {
+    const time = nextNoteTime
+    const isGroupStart = beat === 0 || accentBeats.has(beat)
+    const clickType: ClickType = beat === 0 ? 'downbeat' : isGroupStart ? 'accent' : 'beat'
+    emit('beat', { time, beat, bar, bpm, isGroupStart, countIn: true, silent: false })
+    onClick(time, clickType, 'normal')
+    emit('tick', { time, beat, sub: 0, bar, bpm, clickType, level: 'normal', countIn: true })
+
+    nextNoteTime += 60 / bpm
+    beat += 1
+    if (beat >= s.meter.beats) {
+      beat = 0
+      countInLeft -= 1
+      if (countInLeft === 0) {
+        // The session proper starts on the next downbeat
+        startTime = nextNoteTime
+        lastBumpTime = nextNoteTime
+        gateStart = nextNoteTime
+        segmentStartTime = nextNoteTime
+      }
+    }
+  }
+
+  // Seconds to the next tick on the straight grid. On a curve, the tempo
+  // halfway there sets the spacing, so ticks track the curve instead of
+  // lagging a tick behind.
+  const tickSpacing = (s: EngineSettings, time: number) => {
+    const spacing = 60 / bpm / s.subdivision
+    if (s.shape.kind !== 'accelerando') return spacing
+    const midBpm = curveBpm(s.shape, s.startBpm, segmentTime(time + spacing / 2))
+    return 60 / midBpm / s.subdivision
+  }
+
+  // Move to a new tempo on a downbeat and restart the bump interval there
+  const applyTempo = (s: EngineSettings, time: number, nextBpm: number, nextStep: number) => {
+    const previousBpm = bpm
+    bpm = nextBpm
+    step = nextStep
+    bumpReady = false
+    bumpRequested = false
+    stepBackPending = false
+    lastBumpTime = time
+    gateStart = time
+    lastBumpBar = bar
+    pausedSinceBump = 0
+    heldTime = 0
+    heldBars = 0
+    nextDelta = nextShapeBpm(s.shape, { bpm, startBpm: s.startBpm, increment: s.increment, step }) - bpm
+    peakBpm = Math.max(peakBpm, bpm)
+    if (bpm !== previousBpm) emit('bump', { time, bpm, previousBpm, step })
+  }
+
+  // Progress through the current interval, frozen while held
+  const timeInInterval = (time: number) => held ? heldTime : time - lastBumpTime - pausedSinceBump
+  const barsInInterval = () => held ? heldBars : bar - lastBumpBar
+  const intervalDone = (s: EngineSettings, time: number) => s.intervalUnit === 'bars'
+    ? barsInInterval() >= s.bumpInterval
+    : timeInInterval(time) >= s.bumpInterval
+
+  // Fraction of the segment played, by its end condition. A target end goes
+  // by the tempo covered between the start and the target.
+  const measureSegment = (s: EngineSettings, end: SegmentEnd | null, time: number) => {
+    if (!end) return 0
+    if (end.kind === 'duration') return end.seconds > 0 ? segmentTime(time) / end.seconds : 1
+    if (end.kind === 'bars') return end.bars > 0 ? (bar - segmentStartBar + beat / s.meter.beats) / end.bars : 1
+    if (s.shape.kind === 'accelerando') return s.shape.duration > 0 ? segmentTime(time) / s.shape.duration : 1
+    const target = s.shape.kind === 'ramp-up' || s.shape.kind === 'ramp-down' ? s.shape.target : null
+    if (target === null || target === s.startBpm) return nextDelta === 0 ? 1 : 0
+    return (bpm - s.startBpm) / (target - s.startBpm)
+  }
+
+  const segmentEnded = (s: EngineSettings, end: SegmentEnd | null, time: number) => {
+    if (!end || bar === segmentStartBar) return false
+    switch (end.kind) {
+      case 'duration': return segmentTime(time) >= end.seconds - 1e-6
+      case 'bars': return bar - segmentStartBar >= end.bars
+      case 'target': return s.shape.kind === 'accelerando'
+        ? segmentTime(time) >= s.shape.duration - 1e-6
+        : !held && nextDelta === 0 && intervalDone(s, time)
+    }
+  }
+
+  // Hand over to a segment at `time`, a downbeat: its tempo, meter and bump
+  // interval all start there, with no manual requests carried across
+  const enterSegment = (index: number, time: number) => {
+    const next = segments[index].settings
+    segmentIndex = index
+    bpm = Math.min(Math.max(next.startBpm, 1), MAX_BPM)
+    settings = { ...next, startBpm: bpm }
+    accentBeats = new Set(groupStarts(next.meter).filter((b) => b > 0))
+    peakBpm = Math.max(peakBpm, bpm)
+    segmentStartTime = time
+    segmentStartBar = bar
+    segmentPausedAtStart = totalPaused
+    segmentProgress = 0
+    lastBumpTime = time
+    gateStart = time
+    lastBumpBar = bar
+    pausedSinceBump = 0
+    bumpReady = false
+    bumpRequested = false
+    stepBackPending = false
+    held = false
+    holdRequested = false
+    heldTime = 0
+    heldBars = 0
+    countdown = next.shape.kind === 'accelerando' ? Math.ceil(next.shape.duration) : next.bumpInterval
+    progress = 0
+    step = 0
+    nextDelta = next.shape.kind === 'accelerando'
+      ? Math.round(curveBpm(next.shape, bpm, Infinity) - bpm)
+      : nextShapeBpm(next.shape, { bpm, startBpm: bpm, increment: next.increment, step }) - bpm
+  }
+
+  const scheduleTick = (s: EngineSettings) => {
+    const time = nextNoteTime
+    const isMainBeat = sub === 0
+    const isDownbeat = beat === 0 && isMainBeat
+
+    if (isDownbeat && segmentEnded(s, segments[segmentIndex].end, time)) {
+      if (segmentIndex + 1 >= segments.length) {
+        complete = true
+        segmentProgress = 1
+        emit('complete', { time })
+        return
+      }
+      enterSegment(segmentIndex + 1, time)
+      emit('segment', { time, index: segmentIndex, bpm })
+      scheduleTick(settings!)
+      return
+    }
+    const isGroupStart = beat === 0 || accentBeats.has(beat)
+    const beatsPerMeasure = s.meter.beats
+    const tickSub = sub
+    const position = beat + sub / s.subdivision // in beats from the downbeat, unswung
+
+    if (s.shape.kind === 'accelerando') {
+      // Continuous ramp: the tempo follows the curve, countdown runs to its end
+      const rampTime = segmentTime(time)
+      bpm = curveBpm(s.shape, s.startBpm, rampTime)
+      peakBpm = Math.max(peakBpm, bpm)
+      countdown = Math.max(0, Math.ceil(s.shape.duration - rampTime))
+      progress = s.shape.duration > 0 ? Math.min(1, Math.max(0, rampTime / s.shape.duration)) : 1
+      nextDelta = Math.round(curveBpm(s.shape, s.startBpm, Infinity) - bpm)
+    } else {
+      // Holding and releasing land on a downbeat; a release picks the
+      // interval up where the hold froze it
+      if (isDownbeat && holdRequested !== held) {
+        if (holdRequested) {
+          heldTime = timeInInterval(time)
+          heldBars = barsInInterval()
+          bumpReady = false
+        } else {
+          lastBumpTime = time - heldTime
+          gateStart = time
+          lastBumpBar = bar - heldBars
+          pausedSinceBump = 0
+        }
+        held = holdRequested
+      }
+
+      // Mark bump as ready once the interval of active playing time has elapsed
+      if (!held && intervalDone(s, time)) bumpReady = true
+
+      // Apply a step back, or a BPM bump on the downbeat of any bar (after
+      // interval elapsed, or right away when asked for)
+      if (stepBackPending && isDownbeat) {
+        applyTempo(s, time, Math.max(MIN_BPM, bpm - s.increment), Math.max(0, step - 1))
+      } else if (isDownbeat && (bumpRequested || (bumpReady && bar > 0))) {
+        const verdict = bumpRequested || !bumpGate ? 'pass' : bumpGate({ start: gateStart, time, bpm })
+        if (bumpGate && !bumpRequested) emit('gate', { time, bpm, verdict })
+        if (verdict === 'pass') {
+          applyTempo(s, time, nextShapeBpm(s.shape, { bpm, startBpm: s.startBpm, increment: s.increment, step }), step + 1)
+        } else if (verdict === 'drop') {
+          applyTempo(s, time, Math.max(MIN_BPM, bpm - s.increment), Math.max(0, step - 1))
+        } else {
+          applyTempo(s, time, bpm, step)
+        }
+      }
+
+      if (bumpReady || bumpRequested) {
+        countdown = 0
+        progress = 1
+      } else if (s.intervalUnit === 'bars') {
+        const barsPlayed = barsInInterval() + (held ? 0 : beat / beatsPerMeasure)
+        countdown = Math.max(0, s.bumpInterval - barsInInterval())
+        progress = Math.min(1, barsPlayed / s.bumpInterval)
+      } else {
+        const timeSinceBump = timeInInterval(time)
+        countdown = Math.max(0, Math.ceil(s.bumpInterval - timeSinceBump))
+        progress = Math.min(1, timeSinceBump / s.bumpInterval)
+      }
+    }
+    segmentProgress = Math.min(1, Math.max(0, measureSegment(s, segments[segmentIndex].end, time)))
+    emit('countdown', { time, countdown, progress, ready: bumpReady || bumpRequested, nextDelta })
+
+    const clickType: ClickType = isDownbeat
+      ? 'downbeat'
+      : !isMainBeat
+        ? 'sub'
+        : isGroupStart
+          ? 'accent'
+          : 'beat'
+    if (isDownbeat) {
+      silentBar = isGapBar(s.gaps, bar - segmentStartBar, random)
+      polyBar = s.poly ? polyPositions(s.poly, beatsPerMeasure) : []
+      emit('bar', { time, bar, bpm })
+    }
+    const silent = segments[segmentIndex].rest || silentBar
+    if (isMainBeat) emit('beat', { time, beat, bar, bpm, isGroupStart, countIn: false, silent })
+    const level = silent ? 'mute' : accentAt(s.accents, beat, sub)
+    if (level !== 'mute') onClick(time, clickType, level)
+    emit('tick', { time, beat, sub, bar, bpm, clickType, level, countIn: false })
+    const tickBar = bar
+
+    // Advance subdivision, then beat
+    sub += 1
+    if (sub >= s.subdivision) {
+      sub = 0
+      beat += 1
+      if (beat >= beatsPerMeasure) {
+        beat = 0
+        bar += 1
+      }
+    }
+
+    const straight = tickSpacing(s, time)
+    nextNoteTime += straight * swingFactor(s.subdivision, s.swing, tickSub)
+
+    // Cross-rhythm notes from this tick up to the next, placed on the
+    // straight grid so they follow an accelerando's curve but not the swing.
+    // Swung ticks are taken in pairs, from the first one, which is on time.
+    const group = swings(s.subdivision, s.swing) ? 2 : 1
+    const span = 1 / s.subdivision
+    if (tickSub % group !== 0) return
+    polyBar.forEach((polyPosition, index) => {
+      if (polyPosition < position - 1e-9 || polyPosition >= position + group * span - 1e-9) return
+      const polyTime = time + ((polyPosition - position) / span) * straight
+      const polyLevel = silent ? 'mute' : 'normal'
+      if (polyLevel !== 'mute') onClick(polyTime, 'poly', polyLevel)
+      emit('poly', { time: polyTime, bar: tickBar, position: polyPosition, index, count: polyBar.length, level: polyLevel })
+    })
+  }
+
+  // Move the session past time the clock ran without it (a pause, or a
+  // stall), so ticks are neither doubled up nor bunched
+  const skipTime = (seconds: number) => {
+    nextNoteTime += seconds
+    // Time skipped during the count-in is already absorbed: the session
+    // start is taken from the shifted note time once the count-in ends
+    if (countInLeft === 0) {
+      pausedSinceBump += seconds
+      totalPaused += seconds
+    }
+  }
+
+  const schedule = () => {
+    timer = null
+    if (!settings || !isRunning || isPaused) return
+    const now = clock.now()
+    // The page was frozen (phone locked, app switched) for longer than the
+    // lookahead: carry on from now as after a pause, instead of firing every
+    // missed tick at once
+    if (now - nextNoteTime > lookahead) skipTime(now - nextNoteTime)
+    const horizon = now + lookahead
+    while (nextNoteTime < horizon && !complete) {
+      if (countInLeft > 0) scheduleCountInBeat(settings)
+      else scheduleTick(settings)
+    }
+    timer = clock.setTimeout(schedule, scheduleInterval)
+  }
+
+  const startRoutine = (list: EngineSegment[]) => {
+    clearTimer()
+    if (list.length === 0) return
+    const now = clock.now()
+    segments = list
+    peakBpm = 0
+    beat = 0
+    sub = 0
+    bar = 0
+    totalPaused = 0
+    pauseStartTime = 0
+    complete = false
+    silentBar = false
+    polyBar = []
+    enterSegment(0, now)
+    nextNoteTime = now
+    startTime = now
+    countInLeft = Math.max(0, Math.floor(list[0].settings.countInBars))
+    isRunning = true
+    isPaused = false
+    schedule()
+  }
+
+  return {
+    start(next) {
+      startRoutine([{ settings: next, end: null, rest: false }])
+    },
+
+    startRoutine,
+
+    pause() {
+      if (!isRunning || isPaused) return
+      isPaused = true
+      pauseStartTime = clock.now()
+      clearTimer()
+    },
+
+    resume() {
+      if (!isRunning || !isPaused) return
+      skipTime(Math.max(0, clock.now() - pauseStartTime))
+      isPaused = false
+      schedule()
+    },
+
+    stop() {
+      clearTimer()
+      const wasRunning = isRunning
+      isRunning = false
+      isPaused = false
+      if (wasRunning) emit('stop', { time: clock.now() })
+    },
+
+    setAccents(accents) {
+      if (settings) settings = { ...settings, accents }
+    },
+
+    // An accelerando follows its curve only; manual changes don't apply
+    bumpNow() {
+      if (!isRunning || settings?.shape.kind === 'accelerando') return
+      stepBackPending = false
+      bumpRequested = true
+    },
+
+    stepBack() {
+      if (!isRunning || settings?.shape.kind === 'accelerando') return
+      bumpRequested = false
+      stepBackPending = true
+    },
+
+    setHold(hold) {
+      if (!isRunning || settings?.shape.kind === 'accelerando') return
+      holdRequested = hold
+    },
+
+    setBumpGate(gate) {
+      bumpGate = gate
+    },
+
+    on(type, listener) {
+      listeners[type].add(listener)
+      return () => { listeners[type].delete(listener) }
+    },
+
+    getSnapshot() {
+      return {
+        isRunning, isPaused, countingIn: countInLeft > 0,
+        bpm, peakBpm, beat, sub, bar, countdown, progress, nextDelta,
+        held, holdPending: holdRequested !== held, bumpPending: bumpRequested, stepBackPending,
+        segment: segmentIndex, segmentProgress, complete,
+      }
+    },
+
+    getElapsed() {
+      if (!isRunning || countInLeft > 0) return 0
+      const end = isPaused ? pauseStartTime : clock.now()
+      return Math.max(0, end - startTime - totalPaused)
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { MAX_BPM } from '../settings'
+
+export const MIN_BPM = 1
+
+export type RampCurve = 'linear' | 'exponential'
+
+// How the tempo moves on each bump. Every stepped shape is applied through the
+// same "interval elapsed, then next downbeat" rule in the engine; an
+// accelerando never bumps, its tempo follows `curveBpm` tick by tick.
+export type TempoShape =
+  | { kind: 'ramp-up'; target: number | null }   // climbs, then holds at target (plateau)
+  | { kind: 'ramp-down'; target: number | null } // warm-down, holds at target
+  | { kind: 'sawtooth'; climbSteps: number; dropSteps: number }
+  | { kind: 'pyramid'; peak: number | null }     // up to peak, back down to start, hold
+  | { kind: 'accelerando'; target: number; duration: number; curve: RampCurve } // duration in seconds
+
+export interface ShapeStep {
+  bpm: number
+  startBpm: number
+  increment: number
+  step: number // bumps already applied this session
+}
+
+const clampBpm = (bpm: number) => Math.min(Math.max(bpm, MIN_BPM), MAX_BPM)
+
+// Tempo after the next bump. Returns the current BPM when the shape is holding.
+export function nextShapeBpm(shape: TempoShape, { bpm, startBpm, increment, step }: ShapeStep): number {
+  switch (shape.kind) {
+    case 'ramp-up': {
+      const ceiling = clampBpm(shape.target ?? MAX_BPM)
+      if (bpm >= ceiling) return bpm
+      return Math.min(bpm + increment, ceiling)
+    }
+    case 'ramp-down': {
+      const floor = clampBpm(shape.target ?? MIN_BPM)
+      if (bpm <= floor) return bpm
+      return Math.max(bpm - increment, floor)
+    }
+    case 'sawtooth': {
+      const climb = Math.max(1, shape.climbSteps)
+      const drop = Math.max(0, shape.dropSteps)
+      const climbing = step % (climb + drop) < climb
+      return clampBpm(climbing ? bpm + increment : bpm - increment)
+    }
+    case 'pyramid': {
+      const peak = clampBpm(shape.peak ?? MAX_BPM)
+      const upSteps = Math.max(0, Math.ceil((peak - startBpm) / increment))
+      if (step < upSteps) return Math.min(bpm + increment, peak)
+      if (bpm <= startBpm) return bpm
+      return Math.max(bpm - increment, startBpm)
+    }
+    case 'accelerando':
+      return bpm
+  }
+}
+
+// Accelerando tempo `elapsed` seconds into the ramp, holding at the target
+// once the ramp is over. Exponential curves change by the same ratio each
+// second, which sounds even across the range; a target below the start
+// makes a ritardando.
+export function curveBpm(
+  shape: Extract<TempoShape, { kind: 'accelerando' }>,
+  startBpm: number,
+  elapsed: number,
+): number {
+  const target = clampBpm(shape.target)
+  const t = shape.duration > 0 ? Math.min(Math.max(elapsed / shape.duration, 0), 1) : 1
+  return shape.curve === 'exponential'
+    ? startBpm * (target / startBpm) ** t
+    : startBpm + (target - startBpm) * t
+}
@@ -0,0 +1,117 @@
+import { createTempoEngine, type ClickType, type EngineClock, type EngineSettings } from './tempoEngine'
+import type { AccentLevel } from './accents'
+
+// Renders a whole session ahead of time by running the live engine against
+// a virtual clock, so exports follow exactly the same bump-on-downbeat rules
+// as playback.
+
+export interface TimelineClick {
+  time: number
+  beat: number
+  sub: number
+  offset: number // beats past beat/sub; cross-rhythm notes fall between ticks
+  bar: number
+  clickType: ClickType
+  level: AccentLevel
+}
+
+export interface TempoChange {
+  time: number
+  bar: number
+  beat: number
+  sub: number // an accelerando moves on every tick, subdivisions included
+  bpm: number
+}
+
+// Where the session stops: after a fixed time, or once the tempo has reached
+// the target and played one full interval there. Either way it ends on a
+// downbeat, which is the last click.
+export type SessionEnd =
+  | { kind: 'duration'; seconds: number }
+  | { kind: 'target'; bpm: number }
+
+export interface SessionTimeline {
+  clicks: TimelineClick[]  // audible clicks only, in time order
+  tempos: TempoChange[]    // the start tempo, then every change
+  duration: number         // seconds, up to and including the final downbeat
+  bars: number
+}
+
+// Upper bound on a render, in case the target is never reached
+export const MAX_TIMELINE_SECONDS = 20 * 60
+
+const STEP = 0.25 // virtual seconds per scheduler pass
+
+function createVirtualClock() {
+  let now = 0
+  let nextHandle = 1
+  const timers = new Map<number, () => void>()
+  const clock: EngineClock = {
+    now: () => now,
+    setTimeout(callback) {
+      const handle = nextHandle++
+      timers.set(handle, callback)
+      return handle
+    },
+    clearTimeout: (handle) => { timers.delete(handle) },
+  }
+  // Every pending pass runs at the new time; the engine re-arms itself
+  const advance = (seconds: number) => {
+    now += seconds
+    const due = [...timers.values()]
+    timers.clear()
+    for (const callback of due) callback()
+  }
+  return { clock, advance, now: () => now }
+}
+
+export function buildTimeline(settings: EngineSettings, end: SessionEnd): SessionTimeline {
+  const { clock, advance, now } = createVirtualClock()
+  const engine = createTempoEngine({ clock, onClick: () => {}, lookahead: STEP * 2, scheduleInterval: STEP * 1000 })
+
+  const clicks: TimelineClick[] = []
+  const tempos: TempoChange[] = []
+  let endTime: number | null = null
+  let endBar = 0
+  let reached: { time: number; bar: number } | null = null // first downbeat at the target
+
+  engine.on('tick', ({ time, beat, sub, bar, bpm, clickType, level }) => {
+    if (endTime !== null && time > endTime) return
+    if (tempos[tempos.length - 1]?.bpm !== bpm) tempos.push({ time, bar, beat, sub, bpm })
+    if (level !== 'mute') clicks.push({ time, beat, sub, offset: 0, bar, clickType, level })
+  })
+
+  engine.on('poly', ({ time, bar, position, level }) => {
+    if (endTime !== null && time > endTime) return
+    const beat = Math.floor(position)
+    if (level !== 'mute') clicks.push({ time, beat, sub: 0, offset: position - beat, bar, clickType: 'poly', level })
+  })
+
+  engine.on('bar', ({ time, bar, bpm }) => {
+    if (endTime !== null) return
+    let done = time >= MAX_TIMELINE_SECONDS
+    if (end.kind === 'duration') {
+      done ||= time >= end.seconds
+    } else if (Math.round(bpm) !== end.bpm) {
+      reached = null
+    } else {
+      reached ??= { time, bar }
+      done ||= settings.shape.kind === 'accelerando'
+        || (settings.intervalUnit === 'bars'
+          ? bar - reached.bar >= settings.bumpInterval
+          : time - reached.time >= settings.bumpInterval)
+    }
+    if (done) {
+      endTime = time
+      endBar = bar
+    }
+  })
+
+  engine.start(settings)
+  while (endTime === null || now() <= endTime + STEP) advance(STEP)
+  engine.stop()
+
+  // A cross-rhythm note can be scheduled ahead of a swung tick it follows
+  clicks.sort((a, b) => a.time - b.time)
+  return { clicks, tempos, duration: endTime ?? 0, bars: endBar }
+}
@@ -0,0 +1,98 @@
+// Matches played note onsets to the scheduled ticks, both in clock seconds,
+// to tell how far ahead of or behind the click the player is. Each onset
+// belongs to its nearest tick, and only counts once the tick after it has
+// been scheduled, so an early note is never taken for a very late one.
+
+export interface BarTiming {
+  bar: number
+  offsetMs: number // mean signed offset: negative = early, positive = late
+  spreadMs: number // mean absolute offset
+  hits: number     // onsets matched in the bar
+}
+
+export interface IntervalTiming {
+  hits: number
+  meanAbsMs: number
+}
+
+interface Tick {
+  time: number
+  bar: number
+}
+
+interface Match {
+  tick: Tick
+  offset: number // seconds
+}
+
+// How much history to keep, in seconds of clock time
+const KEEP_SECONDS = 120
+
+export function createTimingTracker() {
+  let ticks: Tick[] = []
+  let onsets: number[] = []
+
+  const prune = (now: number) => {
+    if (ticks.length > 0 && ticks[0].time < now - KEEP_SECONDS) ticks = ticks.filter((t) => t.time >= now - KEEP_SECONDS)
+    if (onsets.length > 0 && onsets[0] < now - KEEP_SECONDS) onsets = onsets.filter((t) => t >= now - KEEP_SECONDS)
+  }
+
+  // Onsets from `from` to `to`, each with its nearest tick
+  const matches = (from: number, to: number): Match[] => {
+    const result: Match[] = []
+    let i = 0
+    for (const onset of onsets) {
+      if (onset < from || onset >= to) continue
+      while (i < ticks.length && ticks[i].time < onset) i++
+      if (i === ticks.length) break // the tick after it isn't scheduled yet
+      const next = ticks[i]
+      const previous = ticks[i - 1]
+      const tick = previous && onset - previous.time < next.time - onset ? previous : next
+      result.push({ tick, offset: onset - tick.time })
+    }
+    return result
+  }
+
+  return {
+    addTick(time: number, bar: number) {
+      ticks.push({ time, bar })
+      prune(time)
+    },
+
+    // Onsets arrive in time order from the detector
+    addOnset(time: number) {
+      onsets.push(time)
+    },
+
+    reset() {
+      ticks = []
+      onsets = []
+    },
+
+    // The most recent `count` bars with any playing in them, oldest first
+    recentBars(count: number): BarTiming[] {
+      const bars = new Map<number, Match[]>()
+      for (const match of matches(-Infinity, Infinity)) {
+        const list = bars.get(match.tick.bar) ?? []
+        list.push(match)
+        bars.set(match.tick.bar, list)
+      }
+      return [...bars.entries()].slice(-count).map(([bar, list]) => ({
+        bar,
+        offsetMs: (list.reduce((sum, m) => sum + m.offset, 0) / list.length) * 1000,
+        spreadMs: (list.reduce((sum, m) => sum + Math.abs(m.offset), 0) / list.length) * 1000,
+        hits: list.length,
+      }))
+    },
+
+    interval(from: number, to: number): IntervalTiming {
+      const list = matches(from, to)
+      return {
+        hits: list.length,
+        meanAbsMs: list.length > 0 ? (list.reduce((sum, m) => sum + Math.abs(m.offset), 0) / list.length) * 1000 : 0,
+      }
+    },
+  }
+}
+
+export type TimingTracker = ReturnType<typeof createTimingTracker>
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { loadHistory, personalBests, type SessionRecord } from './history'
+
+const DAY = 24 * 60 * 60 * 1000
+// Wednesday 2026-10-14, noon local time: the week began on Monday the 12th
+const NOW = new Date(2026, 9, 14, 12).getTime()
+
+let nextId = 0
+const session = (exercise: string, peakBpm: number, startedAt: number): SessionRecord => ({
+  id: String(nextId++),
+  startedAt,
+  exercise,
+  startBpm: 60,
+  peakBpm,
+  increment: 5,
+  interval: 10,
+  intervalUnit: 'seconds',
+  timeSignature: '4/4',
+  subdivision: '1/4',
+  mode: 'ramp-up',
+  duration: 300,
+  bars: 100,
+})
+
+describe('personal bests', () => {
+  it('keeps the best peak per exercise with this and last week beside it', () => {
+    const bests = personalBests([
+      session('Singles', 150, NOW - 20 * DAY),
+      session('Singles', 130, NOW - 5 * DAY), // last week
+      session('Singles', 140, NOW - 4 * DAY), // Saturday the 10th, still last week
+      session('Singles', 120, NOW - 2 * DAY), // Monday, this week
+      session('Doubles', 90, NOW - DAY),
+    ], NOW)
+
+    expect(bests).toEqual([
+      { exercise: 'Doubles', peakBpm: 90, achievedAt: NOW - DAY, sessions: 1, thisWeekPeak: 90, lastWeekPeak: null },
+      {
+        exercise: 'Singles',
+        peakBpm: 150,
+        achievedAt: NOW - 20 * DAY,
+        sessions: 4,
+        thisWeekPeak: 120,
+        lastWeekPeak: 140,
+      },
+    ])
+  })
+
+  it('credits a tied peak to the session that first reached it', () => {
+    const [best] = personalBests([session('Singles', 150, NOW - 3 * DAY), session('Singles', 150, NOW - DAY)], NOW)
+    expect(best.achievedAt).toBe(NOW - 3 * DAY)
+  })
+})
+
+describe('stored history', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  const store = (value: unknown) => {
+    const items = new Map([['codybpm.history', JSON.stringify(value)]])
+    vi.stubGlobal('localStorage', { getItem: (key: string) => items.get(key) ?? null })
+  }
+
+  it('drops malformed and outdated entries and keeps the rest', () => {
+    const good = session('Singles', 150, NOW)
+    const earned = { ...session('Singles', 120, NOW), tempoLog: [{ bpm: 120, passes: 2, misses: 1 }] }
+    const noPeak: Partial<SessionRecord> = session('Singles', 130, NOW)
+    delete noPeak.peakBpm
+    store([
+      good,
+      noPeak,
+      { ...good, startedAt: '2026-10-14' },
+      { ...good, duration: null },
+      { ...good, mode: 'zigzag' },
+      { ...good, tempoLog: [{ bpm: 120 }] },
+      earned,
+      null,
+      'junk',
+    ])
+    expect(loadHistory()).toEqual([good, earned])
+  })
+
+  it('reads anything but a list as empty', () => {
+    store({ records: [] })
+    expect(loadHistory()).toEqual([])
+  })
+})
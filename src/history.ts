@@ -0,0 +1,117 @@
+import type { IntervalUnit } from './engine/tempoEngine'
+import type { TempoShape } from './engine/tempoShapes'
+import { readJSON, writeJSON, removeKey } from './storage'
+
+const HISTORY_KEY = 'history'
+const MAX_RECORDS = 500 // oldest sessions are dropped past this
+
+// How one tempo went in an "earn the bump" session
+export interface TempoResult {
+  bpm: number
+  passes: number // intervals confirmed clean
+  misses: number // intervals that ended unconfirmed
+}
+
+export interface SessionRecord {
+  id: string
+  startedAt: number   // epoch ms
+  exercise: string    // groups sessions for personal bests
+  startBpm: number
+  peakBpm: number
+  increment: number
+  interval: number
+  intervalUnit: IntervalUnit
+  timeSignature: string
+  subdivision: string
+  mode: TempoShape['kind']
+  duration: number    // seconds of active playing time
+  bars: number
+  tempoLog?: TempoResult[] // per-tempo self-ratings, when bumps had to be earned
+}
+
+export interface PersonalBest {
+  exercise: string
+  peakBpm: number
+  achievedAt: number
+  sessions: number
+  thisWeekPeak: number | null
+  lastWeekPeak: number | null
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+// Monday 00:00 local time of the week containing `time`
+function weekStart(time: number): number {
+  const d = new Date(time)
+  d.setHours(0, 0, 0, 0)
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7))
+  return d.getTime()
+}
+
+const SHAPE_KINDS: TempoShape['kind'][] = ['ramp-up', 'ramp-down', 'sawtooth', 'pyramid', 'accelerando']
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function isTempoResult(raw: unknown): raw is TempoResult {
+  if (typeof raw !== 'object' || raw === null) return false
+  const { bpm, passes, misses } = raw as Record<keyof TempoResult, unknown>
+  return [bpm, passes, misses].every(isNumber)
+}
+
+// Stored sessions are checked one by one, like presets and routines: a
+// malformed or outdated entry is dropped instead of reaching the panel
+function isSessionRecord(raw: unknown): raw is SessionRecord {
+  if (typeof raw !== 'object' || raw === null) return false
+  const r = raw as Record<keyof SessionRecord, unknown>
+  return typeof r.id === 'string'
+    && typeof r.exercise === 'string'
+    && [r.startedAt, r.startBpm, r.peakBpm, r.increment, r.interval, r.duration, r.bars].every(isNumber)
+    && (r.intervalUnit === 'seconds' || r.intervalUnit === 'bars')
+    && typeof r.timeSignature === 'string'
+    && typeof r.subdivision === 'string'
+    && SHAPE_KINDS.includes(r.mode as TempoShape['kind'])
+    && (r.tempoLog === undefined || (Array.isArray(r.tempoLog) && r.tempoLog.every(isTempoResult)))
+}
+
+export function loadHistory(): SessionRecord[] {
+  const records = readJSON<unknown>(HISTORY_KEY, [])
+  return Array.isArray(records) ? records.filter(isSessionRecord) : []
+}
+
+export function appendSession(record: Omit<SessionRecord, 'id'>): SessionRecord[] {
+  const entry: SessionRecord = { id: `${record.startedAt}-${Math.random().toString(36).slice(2, 8)}`, ...record }
+  const records = [...loadHistory(), entry].slice(-MAX_RECORDS)
+  writeJSON(HISTORY_KEY, records)
+  return records
+}
+
+export function clearHistory() {
+  removeKey(HISTORY_KEY)
+}
+
+// Best peak per exercise, with this week's and last week's best for comparison
+export function personalBests(records: SessionRecord[], now = Date.now()): PersonalBest[] {
+  const thisWeek = weekStart(now)
+  const lastWeek = thisWeek - WEEK_MS
+  const byExercise = new Map<string, PersonalBest>()
+
+  for (const r of records) {
+    let pb = byExercise.get(r.exercise)
+    if (!pb) {
+      pb = { exercise: r.exercise, peakBpm: 0, achievedAt: 0, sessions: 0, thisWeekPeak: null, lastWeekPeak: null }
+      byExercise.set(r.exercise, pb)
+    }
+    pb.sessions += 1
+    if (r.peakBpm > pb.peakBpm) {
+      pb.peakBpm = r.peakBpm
+      pb.achievedAt = r.startedAt
+    }
+    if (r.startedAt >= thisWeek) {
+      pb.thisWeekPeak = Math.max(pb.thisWeekPeak ?? 0, r.peakBpm)
+    } else if (r.startedAt >= lastWeek) {
+      pb.lastWeekPeak = Math.max(pb.lastWeekPeak ?? 0, r.peakBpm)
+    }
+  }
+
+  return [...byExercise.values()].sort((a, b) => b.achievedAt - a.achievedAt)
+}
@@ -0,0 +1,65 @@
+import { useState, useRef, useCallback, useMemo } from 'react'
+import type { BumpGate } from '../engine/tempoEngine'
+import type { TempoResult } from '../history'
+import { usePersistentState, isIndexOf, isBoolean } from './usePersistentState'
+
+// How many unconfirmed intervals in a row at one tempo send it back a step
+export const DROP_AFTER_MISSES = [
+  { label: 'Never', value: 0 },
+  { label: '2 misses', value: 2 },
+  { label: '3 misses', value: 3 },
+]
+
+// Adaptive bumps from self-rating: the next increment only lands after the
+// player confirms the interval was clean (button, key or pedal). An interval
+// ending unconfirmed plays the tempo again; enough of those in a row drops
+// back one increment. Each tempo's passes and misses are logged for the
+// session record.
+export function useEarnBump() {
+  const [enabled, setEnabled] = usePersistentState('earnBump', false, isBoolean)
+  const [dropAfter, setDropAfter] = usePersistentState('earnDropAfter', 1, isIndexOf(DROP_AFTER_MISSES))
+  const [confirmed, setConfirmed] = useState(false)
+  const [log, setLog] = useState<TempoResult[]>([])
+  const confirmedRef = useRef(false)
+  const missesRef = useRef(0) // unconfirmed intervals in a row
+
+  const confirm = useCallback(() => {
+    confirmedRef.current = true
+    setConfirmed(true)
+  }, [])
+
+  // A fresh session starts unconfirmed with an empty log
+  const reset = useCallback(() => {
+    confirmedRef.current = false
+    missesRef.current = 0
+    setConfirmed(false)
+    setLog([])
+  }, [])
+
+  const missesToDrop = DROP_AFTER_MISSES[dropAfter].value
+  const bumpGate = useMemo<BumpGate | null>(() => {
+    if (!enabled) return null
+    return ({ bpm }) => {
+      const passed = confirmedRef.current
+      confirmedRef.current = false
+      setConfirmed(false)
+      missesRef.current = passed ? 0 : missesRef.current + 1
+
+      const tempo = Math.round(bpm)
+      setLog((prev) => {
+        const entry = prev.find((r) => r.bpm === tempo) ?? { bpm: tempo, passes: 0, misses: 0 }
+        const next = { ...entry, passes: entry.passes + (passed ? 1 : 0), misses: entry.misses + (passed ? 0 : 1) }
+        return prev.includes(entry) ? prev.map((r) => (r === entry ? next : r)) : [...prev, next]
+      })
+
+      if (passed) return 'pass'
+      if (missesToDrop > 0 && missesRef.current >= missesToDrop) {
+        missesRef.current = 0
+        return 'drop'
+      }
+      return 'repeat'
+    }
+  }, [enabled, missesToDrop])
+
+  return { enabled, setEnabled, dropAfter, setDropAfter, confirmed, confirm, log, reset, bumpGate }
+}
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react'
+
+export interface ShortcutHandlers {
+  playPause(): void
+  stop(): void
+  nudgeBpm(delta: number): void
+  bumpNow(): void
+  stepBack(): void
+  toggleHold(): void
+  tapTempo(): void
+  confirmClean(): void
+}
+
+// Listed in the controls panel
+export const SHORTCUTS = [
+  { keys: 'Space', action: 'Play / pause' },
+  { keys: 'Esc', action: 'Stop' },
+  { keys: '↑ ↓', action: 'Start BPM ±1 (Shift ±5)' },
+  { keys: 'B', action: 'Bump now' },
+  { keys: 'D', action: 'Drop back one step' },
+  { keys: 'H', action: 'Hold / release' },
+  { keys: 'T', action: 'Tap tempo' },
+  { keys: 'C', action: 'Rate interval clean (earn mode)' },
+]
+
+// Typing in a field keeps its own keys
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// Page-wide shortcuts so both hands can stay on the instrument
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const handlersRef = useRef(handlers)
+  useEffect(() => { handlersRef.current = handlers })
+
+  useEffect(() => {
+    if (!enabled) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditable(e.target)) return
+      const isArrow = e.key.startsWith('Arrow')
+      // Held arrows keep nudging; everything else fires once per press
+      if (e.repeat && !isArrow) {
+        if (e.key === ' ') e.preventDefault()
+        return
+      }
+      const h = handlersRef.current
+      switch (e.key) {
+        case ' ': h.playPause(); break
+        case 'Escape': h.stop(); break
+        case 'ArrowUp':
+        case 'ArrowRight': h.nudgeBpm(e.shiftKey ? 5 : 1); break
+        case 'ArrowDown':
+        case 'ArrowLeft': h.nudgeBpm(e.shiftKey ? -5 : -1); break
+        case 'b':
+        case 'B': h.bumpNow(); break
+        case 'd':
+        case 'D': h.stepBack(); break
+        case 'h':
+        case 'H': h.toggleHold(); break
+        case 't':
+        case 'T': h.tapTempo(); break
+        case 'c':
+        case 'C': h.confirmClean(); break
+        default: return
+      }
+      // Also stops Space from clicking whichever button has focus
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react'
+
+export interface MediaSessionState {
+  playing: boolean // a session is running or paused
+  paused: boolean
+  title: string    // e.g. "120 BPM"
+  artist: string   // e.g. "Next +5 · 8s"
+  album: string    // exercise name
+}
+
+export interface MediaSessionHandlers {
+  play(): void
+  pause(): void
+  stop(): void
+}
+
+const ARTWORK: MediaImage[] = [
+  { src: '/icon-192.png', sizes: '192x192', type: 'image/png' },
+  { src: '/icon-512.png', sizes: '512x512', type: 'image/png' },
+]
+
+// Lock screen and notification controls for the running session. Metadata is
+// only published while a session is open, so an idle metronome leaves the
+// system media controls alone.
+export function useMediaSession(state: MediaSessionState, handlers: MediaSessionHandlers) {
+  const handlersRef = useRef(handlers)
+  useEffect(() => { handlersRef.current = handlers })
+
+  const supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator
+
+  useEffect(() => {
+    if (!supported) return
+    const session = navigator.mediaSession
+    session.setActionHandler('play', () => handlersRef.current.play())
+    session.setActionHandler('pause', () => handlersRef.current.pause())
+    session.setActionHandler('stop', () => handlersRef.current.stop())
+    return () => {
+      for (const action of ['play', 'pause', 'stop'] as const) session.setActionHandler(action, null)
+    }
+  }, [supported])
+
+  const { playing, paused, title, artist, album } = state
+  useEffect(() => {
+    if (!supported) return
+    const session = navigator.mediaSession
+    if (!playing) {
+      session.metadata = null
+      session.playbackState = 'none'
+      return
+    }
+    session.metadata = new MediaMetadata({ title, artist, album, artwork: ARTWORK })
+    session.playbackState = paused ? 'paused' : 'playing'
+  }, [supported, playing, paused, title, artist, album])
+}
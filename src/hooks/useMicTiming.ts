@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import type { BumpGate, TempoEngine } from '../engine/tempoEngine'
+import { createTimingTracker, type BarTiming } from '../engine/timingAnalysis'
+import { listenForOnsets } from '../audio/onsetDetector'
+import { createBackgroundTimers } from '../audio/audioClock'
+import { usePersistentState, isIndexOf, isBoolean } from './usePersistentState'
+
+export type MicStatus = 'off' | 'starting' | 'on' | 'denied' | 'unsupported'
+
+// How close the playing has to be, on average, for the gate to let a bump through
+export const TIMING_TOLERANCES = [
+  { label: '±10', value: 10 },
+  { label: '±20', value: 20 },
+  { label: '±30', value: 30 },
+  { label: '±50', value: 50 },
+]
+
+// An interval with fewer notes than this was hardly played; it never passes
+const MIN_GATE_HITS = 4
+const SHOWN_BARS = 16
+
+// Listens to the player through the mic and scores each bar against the
+// click. Onsets are read from whichever AudioContext the session is using,
+// attached on the first tick of each session and detached when it stops. With the gate on, `bumpGate`
+// only lets a bump through after an interval played within the tolerance.
+export function useMicTiming(engine: TempoEngine, getContext: () => AudioContext | null) {
+  const [status, setStatus] = useState<MicStatus>(() =>
+    typeof navigator !== 'undefined' && 'mediaDevices' in navigator ? 'off' : 'unsupported')
+  const [bars, setBars] = useState<BarTiming[]>([])
+  const [gate, setGate] = usePersistentState('micGate', false, isBoolean)
+  const [tolerance, setTolerance] = usePersistentState('micTolerance', 1, isIndexOf(TIMING_TOLERANCES))
+  const [lastGate, setLastGate] = useState<boolean | null>(null) // the gate's last ruling
+
+  const [tracker] = useState(createTimingTracker)
+  const [timers] = useState(createBackgroundTimers) // one worker paces every session's reads
+  const streamRef = useRef<MediaStream | null>(null)
+  const attachedRef = useRef<{ ctx: AudioContext; detach: () => void } | null>(null)
+  const getContextRef = useRef(getContext)
+  useEffect(() => { getContextRef.current = getContext })
+
+  // Scheduled ticks feed the tracker; a new session's context gets the mic
+  useEffect(() => {
+    return engine.on('tick', ({ time, bar, countIn }) => {
+      const stream = streamRef.current
+      const ctx = getContextRef.current()
+      if (!stream || !ctx || countIn) return
+      if (attachedRef.current?.ctx !== ctx) {
+        attachedRef.current?.detach()
+        tracker.reset()
+        setLastGate(null)
+        // Sound leaves the speaker and reaches the analyser this much after the clock's times
+        const latency = ctx.baseLatency + (ctx.outputLatency || 0)
+        attachedRef.current = { ctx, detach: listenForOnsets(ctx, stream, latency, timers, tracker.addOnset) }
+      }
+      tracker.addTick(time, bar)
+    })
+  }, [engine, tracker, timers])
+
+  // The session's context closes on stop; stop reading it
+  useEffect(() => {
+    return engine.on('stop', () => {
+      attachedRef.current?.detach()
+      attachedRef.current = null
+      tracker.reset()
+    })
+  }, [engine, tracker])
+
+  useEffect(() => {
+    if (status !== 'on') return
+    const id = window.setInterval(() => setBars(tracker.recentBars(SHOWN_BARS)), 500)
+    return () => window.clearInterval(id)
+  }, [status, tracker])
+
+  const toleranceMs = TIMING_TOLERANCES[tolerance].value
+  const bumpGate = useMemo<BumpGate | null>(() => {
+    if (status !== 'on' || !gate) return null
+    return ({ start, time }) => {
+      const { hits, meanAbsMs } = tracker.interval(start, time)
+      const passed = hits >= MIN_GATE_HITS && meanAbsMs <= toleranceMs
+      setLastGate(passed)
+      return passed ? 'pass' : 'repeat'
+    }
+  }, [tracker, status, gate, toleranceMs])
+
+  const enable = useCallback(async () => {
+    if (streamRef.current) return
+    setStatus('starting')
+    try {
+      // Raw signal: voice processing would smear or swallow the attacks
+      streamRef.current = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      })
+      setStatus('on')
+    } catch {
+      setStatus('denied')
+    }
+  }, [])
+
+  const disable = useCallback(() => {
+    attachedRef.current?.detach()
+    attachedRef.current = null
+    streamRef.current?.getTracks().forEach((t) => t.stop())
+    streamRef.current = null
+    setBars([])
+    setLastGate(null)
+    setStatus((s) => (s === 'unsupported' ? s : 'off'))
+  }, [])
+
+  useEffect(() => () => {
+    attachedRef.current?.detach()
+    streamRef.current?.getTracks().forEach((t) => t.stop())
+  }, [])
+
+  return { status, bars, gate, setGate, tolerance, setTolerance, lastGate, bumpGate, enable, disable }
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  loadMidiBindings,
+  saveMidiBindings,
+  parseMidiMessage,
+  bindingKey,
+  type MidiAction,
+  type MidiBindings,
+} from '../midi'
+
+export type MidiStatus = 'off' | 'connecting' | 'ready' | 'denied' | 'unsupported'
+
+// Web MIDI input mapped to actions. Access is requested on `connect` (the
+// browser may prompt). In learn mode the next control pressed is bound to
+// the action being learned instead of triggering anything.
+export function useMidiControl(onAction: (action: MidiAction) => void) {
+  const supported = typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator
+  const [status, setStatus] = useState<MidiStatus>(supported ? 'off' : 'unsupported')
+  const [devices, setDevices] = useState<string[]>([])
+  const [bindings, setBindings] = useState(loadMidiBindings)
+  const [learning, setLearning] = useState<MidiAction | null>(null)
+
+  const accessRef = useRef<MIDIAccess | null>(null)
+  const heldRef = useRef(new Set<string>()) // controls currently down, so only presses trigger
+  const onActionRef = useRef(onAction)
+  const bindingsRef = useRef(bindings)
+  const learningRef = useRef(learning)
+  useEffect(() => {
+    onActionRef.current = onAction
+    bindingsRef.current = bindings
+    learningRef.current = learning
+  })
+
+  useEffect(() => { saveMidiBindings(bindings) }, [bindings])
+
+  const handleMessage = useCallback((event: MIDIMessageEvent) => {
+    const message = parseMidiMessage(event.data)
+    if (!message) return
+    const key = bindingKey(message.binding)
+    const held = heldRef.current
+    if (!message.down) {
+      held.delete(key)
+      return
+    }
+    if (held.has(key)) return
+    held.add(key)
+
+    const learnAction = learningRef.current
+    if (learnAction) {
+      // One control per action: drop it from whichever action had it before
+      const next: MidiBindings = {}
+      for (const [action, binding] of Object.entries(bindingsRef.current) as [MidiAction, MidiBindings[MidiAction]][]) {
+        if (binding && bindingKey(binding) !== key) next[action] = binding
+      }
+      next[learnAction] = message.binding
+      setBindings(next)
+      setLearning(null)
+      return
+    }
+
+    for (const [action, binding] of Object.entries(bindingsRef.current) as [MidiAction, MidiBindings[MidiAction]][]) {
+      if (binding && bindingKey(binding) === key) onActionRef.current(action)
+    }
+  }, [])
+
+  const connect = useCallback(async () => {
+    if (!supported || accessRef.current) return
+    setStatus('connecting')
+    try {
+      const access = await navigator.requestMIDIAccess()
+      accessRef.current = access
+      // Devices come and go (pedal plugged in later); rebind on every change
+      const attach = () => {
+        const inputs = [...access.inputs.values()]
+        for (const input of inputs) input.onmidimessage = handleMessage
+        setDevices(inputs.map((input) => input.name ?? 'MIDI input'))
+      }
+      attach()
+      access.onstatechange = attach
+      setStatus('ready')
+    } catch {
+      setStatus('denied')
+    }
+  }, [supported, handleMessage])
+
+  useEffect(() => {
+    return () => {
+      const access = accessRef.current
+      if (!access) return
+      access.onstatechange = null
+      for (const input of access.inputs.values()) input.onmidimessage = null
+    }
+  }, [])
+
+  const clearBinding = useCallback((action: MidiAction) => {
+    setBindings((current) => {
+      const next = { ...current }
+      delete next[action]
+      return next
+    })
+  }, [])
+
+  return { status, devices, bindings, learning, connect, learn: setLearning, clearBinding }
+}
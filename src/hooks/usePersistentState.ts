@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react'
+import { readJSON, writeJSON } from '../storage'
+
+// useState that survives a reload. Stored values failing `isValid` (stale
+// index after a list changed, hand-edited storage) fall back to `initial`.
+// A defined `override` (e.g. from a shared link) wins over the stored value.
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+  isValid: (value: unknown) => boolean = () => true,
+  override?: T,
+) {
+  const [value, setValue] = useState<T>(() => {
+    if (override !== undefined) return override
+    const stored = readJSON<unknown>(`settings.${key}`, initial)
+    return isValid(stored) ? stored as T : initial
+  })
+
+  useEffect(() => { writeJSON(`settings.${key}`, value) }, [key, value])
+
+  return [value, setValue] as const
+}
+
+// Validator for an index into one of the settings lists
+export const isIndexOf = (list: readonly unknown[]) => (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < list.length
+
+export const isBoolean = (value: unknown) => typeof value === 'boolean'
@@ -0,0 +1,28 @@
+import { useEffect } from 'react'
+
+// Keeps the screen on while `active`. The browser drops the lock whenever the
+// page is hidden, so it is requested again each time the page comes back.
+// Silently does nothing where the Screen Wake Lock API is missing or refused.
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return
+    let lock: WakeLockSentinel | null = null
+    let released = false
+
+    const acquire = () => {
+      if (document.visibilityState !== 'visible' || (lock && !lock.released)) return
+      navigator.wakeLock.request('screen').then((sentinel) => {
+        if (released) sentinel.release()
+        else lock = sentinel
+      }).catch(() => {})
+    }
+
+    acquire()
+    document.addEventListener('visibilitychange', acquire)
+    return () => {
+      released = true
+      document.removeEventListener('visibilitychange', acquire)
+      lock?.release()
+    }
+  }, [active])
+}
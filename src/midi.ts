@@ -0,0 +1,64 @@
+import { readJSON, writeJSON } from './storage'
+
+// Transport and tempo actions a pedal or controller can trigger
+export type MidiAction = 'playPause' | 'bumpNow' | 'stepBack' | 'toggleHold' | 'confirmClean'
+
+export const MIDI_ACTIONS: { action: MidiAction; label: string }[] = [
+  { action: 'playPause', label: 'Play / pause' },
+  { action: 'bumpNow', label: 'Bump now' },
+  { action: 'stepBack', label: 'Drop back one step' },
+  { action: 'toggleHold', label: 'Hold / release' },
+  { action: 'confirmClean', label: 'Rate interval clean' },
+]
+
+// A note or controller number on one channel (0-15)
+export interface MidiBinding {
+  kind: 'note' | 'cc'
+  channel: number
+  number: number
+}
+
+export type MidiBindings = Partial<Record<MidiAction, MidiBinding>>
+
+const STORAGE_KEY = 'midiBindings'
+
+const isBinding = (value: unknown): value is MidiBinding => {
+  const b = value as MidiBinding
+  return typeof b === 'object' && b !== null
+    && (b.kind === 'note' || b.kind === 'cc')
+    && Number.isInteger(b.channel) && b.channel >= 0 && b.channel < 16
+    && Number.isInteger(b.number) && b.number >= 0 && b.number < 128
+}
+
+export function loadMidiBindings(): MidiBindings {
+  const raw = readJSON<Record<string, unknown>>(STORAGE_KEY, {})
+  const bindings: MidiBindings = {}
+  for (const { action } of MIDI_ACTIONS) {
+    if (isBinding(raw?.[action])) bindings[action] = raw[action]
+  }
+  return bindings
+}
+
+export function saveMidiBindings(bindings: MidiBindings) {
+  writeJSON(STORAGE_KEY, bindings)
+}
+
+export const bindingKey = (b: MidiBinding) => `${b.kind}:${b.channel}:${b.number}`
+
+export const formatBinding = (b: MidiBinding) =>
+  `${b.kind === 'note' ? 'Note' : 'CC'} ${b.number} · ch ${b.channel + 1}`
+
+// Reads a raw message as a control going down or up: note-on/off, or a
+// controller crossing halfway (sustain pedals send 127 down, 0 up). Anything
+// else (clock, pitch bend, sysex) is null.
+export function parseMidiMessage(data: Uint8Array | null): { binding: MidiBinding; down: boolean } | null {
+  if (!data || data.length < 3) return null
+  const type = data[0] & 0xf0
+  const channel = data[0] & 0x0f
+  const number = data[1]
+  const value = data[2]
+  if (type === 0x90) return { binding: { kind: 'note', channel, number }, down: value > 0 }
+  if (type === 0x80) return { binding: { kind: 'note', channel, number }, down: false }
+  if (type === 0xb0) return { binding: { kind: 'cc', channel, number }, down: value >= 64 }
+  return null
+}
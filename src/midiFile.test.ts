@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { buildMidiFile } from './midiFile'
+import { buildTimeline } from './engine/timeline'
+import { DEFAULT_SETTINGS, toEngineSettings } from './settings'
+
+interface ParsedEvent {
+  tick: number
+  bytes: number[]
+}
+
+// Reads back the chunks buildMidiFile writes: no running status, and only
+// meta and note events
+function readMidi(file: Uint8Array) {
+  let at = 0
+  const text = (length: number) => String.fromCharCode(...file.slice(at, (at += length)))
+  const uint = (length: number) => {
+    let n = 0
+    for (let i = 0; i < length; i++) n = n * 256 + file[at++]
+    return n
+  }
+  const varLength = () => {
+    let n = 0
+    for (;;) {
+      const byte = file[at++]
+      n = n * 128 + (byte & 0x7f)
+      if (byte < 0x80) return n
+    }
+  }
+
+  expect(text(4)).toBe('MThd')
+  expect(uint(4)).toBe(6)
+  const header = { format: uint(2), tracks: uint(2), ppq: uint(2) }
+  const tracks: ParsedEvent[][] = []
+  for (let t = 0; t < header.tracks; t++) {
+    expect(text(4)).toBe('MTrk')
+    const length = uint(4)
+    const end = at + length
+    const events: ParsedEvent[] = []
+    let tick = 0
+    while (at < end) {
+      tick += varLength()
+      const start = at
+      if (file[at] === 0xff) {
+        at += 2
+        const length = varLength()
+        at += length
+      } else {
+        at += 3
+      }
+      events.push({ tick, bytes: [...file.slice(start, at)] })
+    }
+    tracks.push(events)
+  }
+  expect(at).toBe(file.length)
+  return { header, tracks }
+}
+
+const tempos = (events: ParsedEvent[]) => events
+  .filter((e) => e.bytes[0] === 0xff && e.bytes[1] === 0x51)
+  .map((e) => ({ tick: e.tick, usPerQuarter: (e.bytes[3] << 16) | (e.bytes[4] << 8) | e.bytes[5] }))
+
+describe('MIDI export', () => {
+  it('writes a tempo event at every bump and a note for every click', () => {
+    // 120 BPM, +5 every 5s: bumps on the 6s and 11.76s downbeats
+    const settings = toEngineSettings({ ...DEFAULT_SETTINGS, startBpm: 120, interval: 0 })
+    const timeline = buildTimeline(settings, { kind: 'duration', seconds: 12 })
+    const { header, tracks } = readMidi(buildMidiFile(timeline, settings))
+
+    expect(header).toEqual({ format: 1, tracks: 2, ppq: 480 })
+    expect(tracks[0][0].bytes).toEqual([0xff, 0x03, 13, ...new TextEncoder().encode('CodyBPM tempo')])
+    expect(tracks[0][1].bytes).toEqual([0xff, 0x58, 0x04, 4, 2, 24, 8])
+    expect(tempos(tracks[0])).toEqual([
+      { tick: 0, usPerQuarter: 500000 },
+      { tick: 3 * 4 * 480, usPerQuarter: 480000 },
+      { tick: 6 * 4 * 480, usPerQuarter: 461538 },
+    ])
+
+    const noteOns = tracks[1].filter((e) => (e.bytes[0] & 0xf0) === 0x90)
+    const noteOffs = tracks[1].filter((e) => (e.bytes[0] & 0xf0) === 0x80)
+    expect(noteOns).toHaveLength(timeline.clicks.length)
+    expect(noteOffs).toHaveLength(timeline.clicks.length)
+    expect(noteOns.every((e) => e.bytes[0] === 0x99)).toBe(true)
+    // Beats sit exactly on the quarter-note grid, downbeats on the hi wood block
+    expect(noteOns.map((e) => e.tick)).toEqual(timeline.clicks.map((_, i) => i * 480))
+    expect(noteOns.filter((e) => e.bytes[1] === 76).map((e) => e.tick / 1920)).toEqual([0, 1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('follows an accelerando on every tick, subdivisions included', () => {
+    // 60 to 120 over a minute in 8ths
+    const settings = toEngineSettings({ ...DEFAULT_SETTINGS, startBpm: 60, mode: 4, targetBpm: 120, rampDuration: 0, subdiv: 1 })
+    const timeline = buildTimeline(settings, { kind: 'target', bpm: 120 })
+    const { tracks } = readMidi(buildMidiFile(timeline, settings))
+
+    const events = tempos(tracks[0])
+    expect(events).toHaveLength(timeline.tempos.length)
+    expect(events.filter((e) => e.tick % 480 === 240).length).toBeGreaterThan(events.length / 3)
+    events.forEach((e, i) => {
+      const { bar, beat, sub, bpm } = timeline.tempos[i]
+      expect(e.tick).toBe((bar * 4 + beat) * 480 + sub * 240)
+      expect(e.usPerQuarter).toBe(Math.round(60_000_000 / bpm))
+    })
+  })
+
+  it('counts in the meter note value, with tempos per quarter note', () => {
+    const settings = toEngineSettings({ ...DEFAULT_SETTINGS, startBpm: 120, meter: '3/8' })
+    const timeline = buildTimeline(settings, { kind: 'duration', seconds: 3 })
+    const { tracks } = readMidi(buildMidiFile(timeline, settings))
+
+    expect(tracks[0][1].bytes).toEqual([0xff, 0x58, 0x04, 3, 3, 24, 8])
+    // 120 eighths a minute is 60 quarters: a second per quarter
+    expect(tempos(tracks[0])).toEqual([{ tick: 0, usPerQuarter: 1000000 }])
+    expect(tracks[1].filter((e) => (e.bytes[0] & 0xf0) === 0x90).map((e) => e.tick).slice(0, 4))
+      .toEqual([0, 240, 480, 720])
+  })
+})
@@ -0,0 +1,93 @@
+import type { ClickType, EngineSettings } from './engine/tempoEngine'
+import type { AccentLevel } from './engine/accents'
+import type { SessionTimeline } from './engine/timeline'
+import { swungPosition } from './engine/swing'
+
+// Type-1 Standard MIDI File of a rendered session: a conductor track with the
+// time signature and a tempo event at every change, and a click track on the
+// General MIDI drum channel. Positions come from bar/beat/subdivision (with
+// swing, and a cross-rhythm note's fraction of a beat), not from seconds, so
+// the grid is exact in a DAW.
+
+const PPQ = 480 // ticks per quarter note
+const DRUM_CHANNEL = 9
+
+// Distinct GM percussion notes per click type, high to low like the live clicks
+const CLICK_NOTES: Record<ClickType, number> = {
+  downbeat: 76, // hi wood block
+  accent: 67,   // high agogo
+  beat: 77,     // low wood block
+  sub: 37,      // side stick
+  poly: 56,     // cowbell
+}
+
+const VELOCITY: Record<Exclude<AccentLevel, 'mute'>, number> = { accent: 127, normal: 100, ghost: 40 }
+
+interface MidiEvent {
+  tick: number
+  order: number // at equal ticks: meta first, then note-offs, then note-ons
+  bytes: number[]
+}
+
+const textBytes = (text: string) => [...new TextEncoder().encode(text)]
+
+function varLength(value: number): number[] {
+  const bytes = [value & 0x7f]
+  for (let v = value >> 7; v > 0; v >>= 7) bytes.unshift((v & 0x7f) | 0x80)
+  return bytes
+}
+
+const uint32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]
+
+function trackChunk(name: string, events: MidiEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order)
+  const nameBytes = textBytes(name)
+  const data = [0, 0xff, 0x03, ...varLength(nameBytes.length), ...nameBytes]
+  let last = 0
+  for (const event of sorted) {
+    data.push(...varLength(event.tick - last), ...event.bytes)
+    last = event.tick
+  }
+  data.push(0, 0xff, 0x2f, 0) // end of track
+  return [...textBytes('MTrk'), ...uint32(data.length), ...data]
+}
+
+export function buildMidiFile(timeline: SessionTimeline, settings: EngineSettings): Uint8Array<ArrayBuffer> {
+  const { meter, subdivision, swing } = settings
+  const beatTicks = (PPQ * 4) / meter.noteValue
+  const subTicks = beatTicks / subdivision
+  const position = (bar: number, beat: number, sub = 0) =>
+    Math.round((bar * meter.beats + beat) * beatTicks + swungPosition(subdivision, swing, sub) * subTicks)
+
+  // Conductor: time signature, then tempos in microseconds per quarter note
+  // (an engine beat is one meter note value, not always a quarter)
+  const conductor: MidiEvent[] = [{
+    tick: 0,
+    order: 0,
+    bytes: [0xff, 0x58, 0x04, meter.beats, Math.log2(meter.noteValue), 24, 8],
+  }]
+  for (const { bar, beat, sub, bpm } of timeline.tempos) {
+    const usPerQuarter = Math.round((60_000_000 / bpm) * (meter.noteValue / 4))
+    conductor.push({
+      tick: position(bar, beat, sub),
+      order: 0,
+      bytes: [0xff, 0x51, 0x03, (usPerQuarter >> 16) & 0xff, (usPerQuarter >> 8) & 0xff, usPerQuarter & 0xff],
+    })
+  }
+
+  const noteLength = Math.max(1, Math.round(subTicks / 2))
+  const clicks: MidiEvent[] = []
+  for (const { bar, beat, sub, offset, clickType, level } of timeline.clicks) {
+    if (level === 'mute') continue
+    const tick = position(bar, beat, sub) + Math.round(offset * beatTicks)
+    const note = CLICK_NOTES[clickType]
+    const velocity = clickType === 'sub' && level === 'normal' ? 80 : VELOCITY[level]
+    clicks.push(
+      { tick, order: 2, bytes: [0x90 | DRUM_CHANNEL, note, velocity] },
+      { tick: tick + noteLength, order: 1, bytes: [0x80 | DRUM_CHANNEL, note, 0] },
+    )
+  }
+
+  const header = [...textBytes('MThd'), ...uint32(6), 0, 1, 0, 2, (PPQ >> 8) & 0xff, PPQ & 0xff]
+  return new Uint8Array([...header, ...trackChunk('CodyBPM tempo', conductor), ...trackChunk('Click', clicks)])
+}
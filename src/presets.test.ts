@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { exportPresets, importPresets, upsertPreset, type Preset } from './presets'
+import { DEFAULT_SETTINGS, MAX_BPM } from './settings'
+
+const library = (presets: unknown) => JSON.stringify({ format: 'codybpm-presets', version: 1, presets })
+
+describe('preset import', () => {
+  const ours: Preset[] = [{ id: 'a', name: 'Warm-up', settings: { ...DEFAULT_SETTINGS, startBpm: 70 } }]
+
+  it('merges a library by name, replacing presets with the same name', () => {
+    const theirs = upsertPreset(upsertPreset([], 'Warm-up', DEFAULT_SETTINGS), 'Sprint', { ...DEFAULT_SETTINGS, startBpm: 140 })
+    const merged = importPresets(ours, exportPresets(theirs))
+    expect(merged.map((p) => [p.name, p.settings.startBpm])).toEqual([['Warm-up', DEFAULT_SETTINGS.startBpm], ['Sprint', 140]])
+    expect(merged[0].id).toBe('a')
+  })
+
+  it('re-validates every imported preset and skips unusable entries', () => {
+    const merged = importPresets([], library([
+      { name: '  Fast  ', settings: { startBpm: 5000, mode: 42, meter: '99/4' } },
+      { name: '', settings: {} },
+      { name: 'No settings' },
+      'junk',
+    ]))
+    expect(merged).toHaveLength(1)
+    expect(merged[0].name).toBe('Fast')
+    expect(merged[0].settings).toEqual({ ...DEFAULT_SETTINGS, startBpm: MAX_BPM })
+  })
+
+  it('rejects files that are not a preset library', () => {
+    expect(() => importPresets(ours, '{ not json')).toThrow('Not a valid JSON file')
+    expect(() => importPresets(ours, JSON.stringify({ presets: [] }))).toThrow('Not a CodyBPM preset library')
+    expect(() => importPresets(ours, library([{ name: '' }]))).toThrow('No usable presets in file')
+  })
+})
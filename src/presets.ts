@@ -0,0 +1,77 @@
+import { normalizeSettings, type PracticeSettings } from './settings'
+import { readJSON, writeJSON } from './storage'
+
+const PRESETS_KEY = 'presets'
+const FILE_FORMAT = 'codybpm-presets'
+const FILE_VERSION = 1
+
+export interface Preset {
+  id: string
+  name: string
+  settings: PracticeSettings
+}
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+// Presets from storage or an imported file are re-validated the same way
+function parsePresetList(raw: unknown): Omit<Preset, 'id'>[] {
+  if (!Array.isArray(raw)) return []
+  return raw.flatMap((entry) => {
+    if (typeof entry !== 'object' || entry === null) return []
+    const { name, settings } = entry as { name?: unknown; settings?: unknown }
+    if (typeof name !== 'string' || name.trim() === '') return []
+    if (typeof settings !== 'object' || settings === null) return []
+    return [{ name: name.trim(), settings: normalizeSettings(settings) }]
+  })
+}
+
+export function loadPresets(): Preset[] {
+  const stored = readJSON<unknown>(PRESETS_KEY, [])
+  const ids = Array.isArray(stored) ? stored.map((p) => (p as { id?: unknown })?.id) : []
+  return parsePresetList(stored).map((p, i) => ({
+    id: typeof ids[i] === 'string' ? ids[i] as string : newId(),
+    ...p,
+  }))
+}
+
+export function savePresets(presets: Preset[]) {
+  writeJSON(PRESETS_KEY, presets)
+}
+
+// Saving under an existing name replaces that preset
+export function upsertPreset(presets: Preset[], name: string, settings: PracticeSettings): Preset[] {
+  const trimmed = name.trim()
+  const existing = presets.find((p) => p.name === trimmed)
+  if (existing) {
+    return presets.map((p) => (p === existing ? { ...p, settings } : p))
+  }
+  return [...presets, { id: newId(), name: trimmed, settings }]
+}
+
+export function exportPresets(presets: Preset[]): string {
+  return JSON.stringify({
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  }, null, 2)
+}
+
+// Merges a shared library into ours. Throws with a user-facing message when
+// the file is not a preset library at all.
+export function importPresets(presets: Preset[], text: string): Preset[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Not a valid JSON file')
+  }
+  const file = parsed as { format?: unknown; presets?: unknown }
+  if (typeof parsed !== 'object' || parsed === null || file.format !== FILE_FORMAT) {
+    throw new Error('Not a CodyBPM preset library')
+  }
+  const incoming = parsePresetList(file.presets)
+  if (incoming.length === 0) {
+    throw new Error('No usable presets in file')
+  }
+  return incoming.reduce((acc, p) => upsertPreset(acc, p.name, p.settings), presets)
+}
@@ -0,0 +1,116 @@
+import type { EngineSegment, SegmentEnd } from './engine/tempoEngine'
+import { normalizeSettings, settledTarget, toEngineSettings, type PracticeSettings } from './settings'
+import { readJSON, writeJSON } from './storage'
+
+const ROUTINES_KEY = 'routines'
+
+// A block of a routine: the full setup it plays, and when it hands over
+export interface RoutineSegment {
+  name: string
+  settings: PracticeSettings
+  end: SegmentEnd
+  rest: boolean // keep time silently, e.g. a minute's break between blocks
+}
+
+export interface Routine {
+  id: string
+  name: string
+  segments: RoutineSegment[]
+}
+
+// End condition picks in the editor
+export const SEGMENT_DURATIONS = [
+  { label: '30s', value: 30 },
+  { label: '1m', value: 60 },
+  { label: '2m', value: 120 },
+  { label: '3m', value: 180 },
+  { label: '5m', value: 300 },
+  { label: '10m', value: 600 },
+]
+export const SEGMENT_BARS = [
+  { label: '4b', value: 4 },
+  { label: '8b', value: 8 },
+  { label: '16b', value: 16 },
+  { label: '32b', value: 32 },
+  { label: '64b', value: 64 },
+]
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+// Only shapes that settle on a target can end there
+export const canEndAtTarget = (settings: PracticeSettings) => settledTarget(settings) !== null
+
+export function describeEnd(end: SegmentEnd): string {
+  switch (end.kind) {
+    case 'duration': {
+      const m = Math.floor(end.seconds / 60)
+      const s = end.seconds % 60
+      return m === 0 ? `${s}s` : s === 0 ? `${m}m` : `${m}m ${s}s`
+    }
+    case 'bars': return `${end.bars} bar${end.bars === 1 ? '' : 's'}`
+    case 'target': return 'At target'
+  }
+}
+
+function parseEnd(raw: unknown): SegmentEnd | null {
+  if (typeof raw !== 'object' || raw === null) return null
+  const { kind, seconds, bars } = raw as { kind?: unknown; seconds?: unknown; bars?: unknown }
+  if (kind === 'duration' && typeof seconds === 'number' && seconds > 0) return { kind, seconds: Math.round(seconds) }
+  if (kind === 'bars' && typeof bars === 'number' && bars >= 1) return { kind, bars: Math.round(bars) }
+  if (kind === 'target') return { kind }
+  return null
+}
+
+// Stored routines are re-validated like presets; a target end on a shape that
+// never settles falls back to a few minutes, so the routine can't get stuck
+function parseSegment(raw: unknown): RoutineSegment[] {
+  if (typeof raw !== 'object' || raw === null) return []
+  const { name, settings, end, rest } = raw as { name?: unknown; settings?: unknown; end?: unknown; rest?: unknown }
+  if (typeof settings !== 'object' || settings === null) return []
+  const normalized = normalizeSettings(settings)
+  let parsedEnd = parseEnd(end) ?? { kind: 'duration', seconds: 120 }
+  if (parsedEnd.kind === 'target' && !canEndAtTarget(normalized)) parsedEnd = { kind: 'duration', seconds: 120 }
+  return [{
+    name: typeof name === 'string' ? name.trim() : '',
+    settings: normalized,
+    end: parsedEnd,
+    rest: rest === true,
+  }]
+}
+
+export function loadRoutines(): Routine[] {
+  const stored = readJSON<unknown>(ROUTINES_KEY, [])
+  if (!Array.isArray(stored)) return []
+  return stored.flatMap((entry) => {
+    if (typeof entry !== 'object' || entry === null) return []
+    const { id, name, segments } = entry as { id?: unknown; name?: unknown; segments?: unknown }
+    if (typeof name !== 'string' || name.trim() === '' || !Array.isArray(segments)) return []
+    return [{
+      id: typeof id === 'string' ? id : newId(),
+      name: name.trim(),
+      segments: segments.flatMap(parseSegment),
+    }]
+  })
+}
+
+export function saveRoutines(routines: Routine[]) {
+  writeJSON(ROUTINES_KEY, routines)
+}
+
+export const createRoutine = (name: string): Routine => ({ id: newId(), name: name.trim(), segments: [] })
+
+export const newSegment = (settings: PracticeSettings): RoutineSegment => ({
+  name: '',
+  settings,
+  end: canEndAtTarget(settings) ? { kind: 'target' } : { kind: 'duration', seconds: 120 },
+  rest: false,
+})
+
+// What the engine plays; the count-in only applies ahead of the first segment
+export function toEngineSegments(routine: Routine, countInBars = 0): EngineSegment[] {
+  return routine.segments.map((segment, i) => ({
+    settings: toEngineSettings(segment.settings, i === 0 ? countInBars : 0),
+    end: segment.end,
+    rest: segment.rest,
+  }))
+}
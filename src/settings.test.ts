@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_SETTINGS, MAX_BPM, normalizeSettings, describeSettings, settingsEqual, settledTarget } from './settings'
+
+describe('normalizeSettings', () => {
+  it('clamps BPMs to 1..MAX_BPM and rounds them', () => {
+    expect(normalizeSettings({ startBpm: 1000, targetBpm: -20 })).toMatchObject({ startBpm: MAX_BPM, targetBpm: 1 })
+    expect(normalizeSettings({ startBpm: '92.6', targetBpm: '' })).toMatchObject({ startBpm: 93, targetBpm: null })
+    expect(normalizeSettings({ startBpm: 'fast', targetBpm: 'slow' })).toMatchObject({
+      startBpm: DEFAULT_SETTINGS.startBpm,
+      targetBpm: null,
+    })
+  })
+
+  it('falls back to the default for indexes outside their list', () => {
+    const settings = normalizeSettings({ increment: 99, interval: -1, subdiv: 1.5, mode: '2', poly: '9' })
+    expect(settings).toMatchObject({
+      increment: DEFAULT_SETTINGS.increment,
+      interval: DEFAULT_SETTINGS.interval,
+      subdiv: DEFAULT_SETTINGS.subdiv,
+      mode: 2,
+      poly: DEFAULT_SETTINGS.poly,
+    })
+  })
+
+  it('reads free-form meters, legacy time signature picks and accent text', () => {
+    expect(normalizeSettings({ meter: ' 7/8 (2+2+3) ' }).meter).toBe('7/8')
+    expect(normalizeSettings({ meter: '7/8 3+2+2' }).meter).toBe('7/8 3+2+2')
+    expect(normalizeSettings({ timeSig: 2 }).meter).toBe('6/8')
+    expect(normalizeSettings({ meter: '5/3', timeSig: 99 }).meter).toBe('4/4')
+    expect(normalizeSettings({ accents: 'Ann.x.nn' }).accents).toBe('A')
+  })
+
+  it('fills in everything a raw object leaves out', () => {
+    expect(settingsEqual(normalizeSettings({}), DEFAULT_SETTINGS)).toBe(true)
+  })
+})
+
+describe('describeSettings', () => {
+  it('names the exercise with its layers', () => {
+    expect(describeSettings(DEFAULT_SETTINGS)).toBe('4/4 1/4 Up +5/10s')
+    expect(describeSettings({ ...DEFAULT_SETTINGS, subdiv: 1, swing: 3, poly: 1, gaps: 2 }))
+      .toBe('4/4 1/8 Up +5/10s swing 66% poly 3:2 gap 2:2')
+  })
+})
+
+describe('settledTarget', () => {
+  const at = (mode: number, startBpm: number, targetBpm: number | null) =>
+    settledTarget({ ...DEFAULT_SETTINGS, mode, startBpm, targetBpm })
+
+  it('takes a ramp target only on the side the ramp moves towards', () => {
+    expect(at(0, 100, 140)).toBe(140)
+    expect(at(0, 100, 80)).toBeNull()
+    expect(at(1, 100, 80)).toBe(80)
+    expect(at(1, 100, 140)).toBeNull()
+    expect(at(0, 100, null)).toBeNull()
+  })
+
+  it('always settles an accelerando, and never a sawtooth or pyramid', () => {
+    expect(at(4, 100, 80)).toBe(80)
+    expect(at(4, 100, null)).toBe(MAX_BPM)
+    expect(at(2, 100, 140)).toBeNull()
+    expect(at(3, 100, 140)).toBeNull()
+  })
+})
@@ -0,0 +1,296 @@
+import type { IntervalUnit, EngineSettings } from './engine/tempoEngine'
+import type { RampCurve, TempoShape } from './engine/tempoShapes'
+import type { GapPattern } from './engine/gaps'
+import type { Polyrhythm } from './engine/polyrhythm'
+import { swings } from './engine/swing'
+import { parseMeter, formatMeter } from './engine/meter'
+import { parseAccents, formatAccents } from './engine/accents'
+
+export const INCREMENTS = [
+  { label: 'A', value: 1 },
+  { label: 'B', value: 2 },
+  { label: 'C', value: 3 },
+  { label: 'D', value: 5 },
+  { label: 'E', value: 10 },
+  { label: 'F', value: 15 },
+]
+
+// Quick picks; any meter parseMeter accepts can be typed in
+export const TIME_SIGNATURES = [
+  { label: '4/4' },
+  { label: '3/4' },
+  { label: '6/8' },
+  { label: '5/4' },
+  { label: '7/8' },
+  { label: '12/8' },
+]
+
+export const SUBDIVISIONS = [
+  { label: '1/4', perBeat: 1 },   // quarter notes (no subdivision)
+  { label: '1/8', perBeat: 2 },   // 8th notes
+  { label: 'Trip', perBeat: 3 },  // triplets
+  { label: '1/16', perBeat: 4 },  // 16th notes
+]
+
+export const MAX_BPM = 300
+export const DEFAULT_BPM = 60
+export const BUMP_INTERVALS = [
+  { label: '5s', value: 5 },
+  { label: '10s', value: 10 },
+  { label: '15s', value: 15 },
+  { label: '20s', value: 20 },
+  { label: '30s', value: 30 },
+  { label: '60s', value: 60 },
+]
+export const BAR_INTERVALS = [
+  { label: '1b', value: 1 },
+  { label: '2b', value: 2 },
+  { label: '4b', value: 4 },
+  { label: '8b', value: 8 },
+  { label: '12b', value: 12 },
+  { label: '16b', value: 16 },
+]
+
+// Accelerando ramp lengths, in minutes
+export const RAMP_DURATIONS = [
+  { label: '1m', value: 1 },
+  { label: '2m', value: 2 },
+  { label: '5m', value: 5 },
+  { label: '10m', value: 10 },
+  { label: '15m', value: 15 },
+  { label: '20m', value: 20 },
+]
+
+// Bars of plain beats before the session starts
+export const COUNT_IN_BARS = [
+  { label: 'Off', value: 0 },
+  { label: '1 bar', value: 1 },
+  { label: '2 bars', value: 2 },
+]
+
+export const TEMPO_MODES = [
+  { label: 'Up', kind: 'ramp-up' },     // climb, optional ceiling to hold at
+  { label: 'Down', kind: 'ramp-down' }, // warm-down to a floor
+  { label: 'Saw', kind: 'sawtooth' },   // climb N steps, drop back M
+  { label: 'Pyr', kind: 'pyramid' },    // up to a peak, back down to start
+  { label: 'Accel', kind: 'accelerando' }, // smooth ramp to the target over a set time
+] as const
+
+// Swing on 8ths and 16ths, as the share of each pair the first note takes
+export const SWING_AMOUNTS = [
+  { label: '50%', value: 50 }, // straight
+  { label: '55%', value: 55 },
+  { label: '60%', value: 60 },
+  { label: '66%', value: 66 }, // triplet shuffle
+  { label: '70%', value: 70 },
+  { label: '75%', value: 75 },
+]
+
+// Silent bars for internal time: N on, M off, or a random share of bars
+export const GAP_PATTERNS: { label: string; gaps: GapPattern }[] = [
+  { label: 'Off', gaps: { kind: 'off' } },
+  { label: '1:1', gaps: { kind: 'cycle', on: 1, off: 1 } },
+  { label: '2:2', gaps: { kind: 'cycle', on: 2, off: 2 } },
+  { label: '4:4', gaps: { kind: 'cycle', on: 4, off: 4 } },
+  { label: '25%', gaps: { kind: 'random', chance: 0.25 } },
+  { label: '50%', gaps: { kind: 'random', chance: 0.5 } },
+]
+
+// Cross-rhythm layer: notes against main beats
+export const POLYRHYTHMS: { label: string; poly: Polyrhythm | null }[] = [
+  { label: 'Off', poly: null },
+  { label: '3:2', poly: { notes: 3, beats: 2 } },
+  { label: '4:3', poly: { notes: 4, beats: 3 } },
+  { label: '5:4', poly: { notes: 5, beats: 4 } },
+  { label: '7:4', poly: { notes: 7, beats: 4 } },
+]
+
+export const SAWTOOTH_PATTERNS = [
+  { label: '2/1', climb: 2, drop: 1 },
+  { label: '3/1', climb: 3, drop: 1 },
+  { label: '4/2', climb: 4, drop: 2 },
+]
+
+// Every user-facing setting, by list index where there is a list. Presets,
+// shared links and history all carry this same bundle.
+export interface PracticeSettings {
+  startBpm: number
+  increment: number   // index into INCREMENTS
+  interval: number    // index into BUMP_INTERVALS
+  barInterval: number // index into BAR_INTERVALS
+  intervalUnit: IntervalUnit
+  meter: string       // parseMeter text, e.g. "7/8 2+2+3"
+  subdiv: number      // index into SUBDIVISIONS
+  swing: number       // index into SWING_AMOUNTS; applies to 8ths and 16ths
+  mode: number        // index into TEMPO_MODES
+  targetBpm: number | null
+  pattern: number     // index into SAWTOOTH_PATTERNS
+  accents: string     // formatAccents text, '' = every cell normal
+  rampDuration: number // index into RAMP_DURATIONS
+  rampCurve: RampCurve
+  gaps: number        // index into GAP_PATTERNS
+  poly: number        // index into POLYRHYTHMS
+}
+
+export const DEFAULT_SETTINGS: PracticeSettings = {
+  startBpm: DEFAULT_BPM,
+  increment: 3,   // +5
+  interval: 1,    // 10s
+  barInterval: 2, // 4 bars
+  intervalUnit: 'seconds',
+  meter: '4/4',
+  subdiv: 0,      // quarter
+  swing: 0,       // straight
+  mode: 0,        // ramp up
+  targetBpm: null,
+  pattern: 1,     // climb 3, drop 1
+  accents: '',
+  rampDuration: 2, // 5 minutes
+  rampCurve: 'linear',
+  gaps: 0,        // off
+  poly: 0,        // off
+}
+
+export const clampBpm = (bpm: number) => Math.min(Math.max(Math.round(bpm), 1), MAX_BPM)
+
+const toNumber = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value)
+
+const toIndex = (value: unknown, list: readonly unknown[], fallback: number) => {
+  const n = toNumber(value)
+  return typeof n === 'number' && Number.isInteger(n) && n >= 0 && n < list.length ? n : fallback
+}
+
+const toBpm = (value: unknown, fallback: number) => {
+  const n = toNumber(value)
+  return typeof n === 'number' && Number.isFinite(n) ? clampBpm(n) : fallback
+}
+
+const toOptionalBpm = (value: unknown) => {
+  const bpm = toBpm(value, NaN)
+  return Number.isNaN(bpm) ? null : bpm
+}
+
+// Canonical meter text. Presets saved before free-form meters carry a
+// `timeSig` index into the quick picks instead.
+const toMeter = (raw: { meter?: unknown; timeSig?: unknown }, fallback: string) => {
+  const parsed = typeof raw.meter === 'string' ? parseMeter(raw.meter) : null
+  if (parsed) return formatMeter(parsed)
+  const legacy = toIndex(raw.timeSig, TIME_SIGNATURES, -1)
+  return legacy >= 0 ? TIME_SIGNATURES[legacy].label : fallback
+}
+
+// Accepts settings from an untrusted source (imported file, URL). BPMs are
+// clamped to 1..MAX_BPM like the Start BPM input; anything else unusable
+// falls back to the defaults.
+export function normalizeSettings(
+  raw: Partial<Record<keyof PracticeSettings | 'timeSig', unknown>>,
+): PracticeSettings {
+  const d = DEFAULT_SETTINGS
+  return {
+    startBpm: toBpm(raw.startBpm, d.startBpm),
+    increment: toIndex(raw.increment, INCREMENTS, d.increment),
+    interval: toIndex(raw.interval, BUMP_INTERVALS, d.interval),
+    barInterval: toIndex(raw.barInterval, BAR_INTERVALS, d.barInterval),
+    intervalUnit: raw.intervalUnit === 'bars' ? 'bars' : 'seconds',
+    meter: toMeter(raw, d.meter),
+    subdiv: toIndex(raw.subdiv, SUBDIVISIONS, d.subdiv),
+    swing: toIndex(raw.swing, SWING_AMOUNTS, d.swing),
+    mode: toIndex(raw.mode, TEMPO_MODES, d.mode),
+    targetBpm: toOptionalBpm(raw.targetBpm),
+    pattern: toIndex(raw.pattern, SAWTOOTH_PATTERNS, d.pattern),
+    accents: typeof raw.accents === 'string' ? formatAccents(parseAccents(raw.accents)) : d.accents,
+    rampDuration: toIndex(raw.rampDuration, RAMP_DURATIONS, d.rampDuration),
+    rampCurve: raw.rampCurve === 'exponential' ? 'exponential' : 'linear',
+    gaps: toIndex(raw.gaps, GAP_PATTERNS, d.gaps),
+    poly: toIndex(raw.poly, POLYRHYTHMS, d.poly),
+  }
+}
+
+export const settingsEqual = (a: PracticeSettings, b: PracticeSettings) =>
+  (Object.keys(a) as (keyof PracticeSettings)[]).every((key) => a[key] === b[key])
+
+// Short human label, e.g. "4/4 1/8 Up +5/10s" or "4/4 1/4 Accel 80-140/5m",
+// with any swing, cross-rhythm and gap pattern after it ("swing 66% poly 3:2");
+// history groups exercises by it
+export function describeSettings(s: PracticeSettings): string {
+  const mode = TEMPO_MODES[s.mode]
+  const layers = [
+    ...(swings(SUBDIVISIONS[s.subdiv].perBeat, SWING_AMOUNTS[s.swing].value / 100)
+      ? [`swing ${SWING_AMOUNTS[s.swing].label}`]
+      : []),
+    ...(s.poly === 0 ? [] : [`poly ${POLYRHYTHMS[s.poly].label}`]),
+    ...(s.gaps === 0 ? [] : [`gap ${GAP_PATTERNS[s.gaps].label}`]),
+  ]
+  if (mode.kind === 'accelerando') {
+    return [
+      s.meter,
+      SUBDIVISIONS[s.subdiv].label,
+      mode.label,
+      `${s.startBpm}-${s.targetBpm ?? MAX_BPM}/${RAMP_DURATIONS[s.rampDuration].label}`,
+      ...(s.rampCurve === 'exponential' ? ['exp'] : []),
+      ...layers,
+    ].join(' ')
+  }
+  const sign = mode.kind === 'ramp-up' ? '+' : mode.kind === 'ramp-down' ? '-' : '±'
+  const interval = s.intervalUnit === 'bars'
+    ? `${BAR_INTERVALS[s.barInterval].value}b`
+    : `${BUMP_INTERVALS[s.interval].value}s`
+  return [
+    s.meter,
+    SUBDIVISIONS[s.subdiv].label,
+    mode.label,
+    `${sign}${INCREMENTS[s.increment].value}/${interval}`,
+    ...layers,
+  ].join(' ')
+}
+
+// The tempo a shape settles on and holds there, or null if it never does: an
+// accelerando's target, or a ramp's ceiling or floor on the side it ramps
+// towards (a ramp up never reaches a ceiling below its start)
+export function settledTarget(s: PracticeSettings): number | null {
+  const kind = TEMPO_MODES[s.mode].kind
+  if (kind === 'accelerando') return clampBpm(s.targetBpm ?? MAX_BPM)
+  if (s.targetBpm === null) return null
+  const target = clampBpm(s.targetBpm)
+  if (kind === 'ramp-up') return target >= s.startBpm ? target : null
+  if (kind === 'ramp-down') return target <= s.startBpm ? target : null
+  return null
+}
+
+// Build the engine's tempo shape from the mode selector
+export function buildTempoShape(
+  { mode, targetBpm: target, pattern, rampDuration, rampCurve }:
+    Pick<PracticeSettings, 'mode' | 'targetBpm' | 'pattern' | 'rampDuration' | 'rampCurve'>,
+): TempoShape {
+  const sawtooth = SAWTOOTH_PATTERNS[pattern]
+  switch (TEMPO_MODES[mode].kind) {
+    case 'ramp-up': return { kind: 'ramp-up', target }
+    case 'ramp-down': return { kind: 'ramp-down', target }
+    case 'sawtooth': return { kind: 'sawtooth', climbSteps: sawtooth.climb, dropSteps: sawtooth.drop }
+    case 'pyramid': return { kind: 'pyramid', peak: target }
+    case 'accelerando': return {
+      kind: 'accelerando',
+      target: target ?? MAX_BPM,
+      duration: RAMP_DURATIONS[rampDuration].value * 60,
+      curve: rampCurve,
+    }
+  }
+}
+
+// Everything the engine needs to play these settings
+export function toEngineSettings(s: PracticeSettings, countInBars = 0): EngineSettings {
+  return {
+    startBpm: s.startBpm,
+    increment: INCREMENTS[s.increment].value,
+    bumpInterval: s.intervalUnit === 'bars' ? BAR_INTERVALS[s.barInterval].value : BUMP_INTERVALS[s.interval].value,
+    intervalUnit: s.intervalUnit,
+    meter: parseMeter(s.meter) ?? parseMeter(DEFAULT_SETTINGS.meter)!,
+    subdivision: SUBDIVISIONS[s.subdiv].perBeat,
+    swing: SWING_AMOUNTS[s.swing].value / 100,
+    shape: buildTempoShape(s),
+    accents: parseAccents(s.accents),
+    gaps: GAP_PATTERNS[s.gaps].gaps,
+    poly: POLYRHYTHMS[s.poly].poly,
+    countInBars,
+  }
+}
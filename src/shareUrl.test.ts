@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { buildShareUrl, readShareParams } from './shareUrl'
+import { DEFAULT_SETTINGS, MAX_BPM, type PracticeSettings } from './settings'
+
+describe('share links', () => {
+  it('round-trips every setting through the URL', () => {
+    const settings: PracticeSettings = {
+      ...DEFAULT_SETTINGS,
+      startBpm: 84,
+      increment: 4,
+      barInterval: 3,
+      intervalUnit: 'bars',
+      meter: '7/8 3+2+2',
+      subdiv: 1,
+      swing: 3,
+      mode: 4,
+      targetBpm: 140,
+      accents: 'A.-.g',
+      rampDuration: 3,
+      rampCurve: 'exponential',
+      gaps: 4,
+      poly: 2,
+    }
+    const url = new URL(buildShareUrl(settings, 'https://example.com/app/?old=1#top'))
+    expect(url.pathname).toBe('/app/')
+    expect(url.searchParams.has('old')).toBe(false)
+    expect(readShareParams(url.search)).toEqual(settings)
+  })
+
+  it('returns null for a URL without settings', () => {
+    expect(readShareParams('')).toBeNull()
+    expect(readShareParams('?utm_source=chat')).toBeNull()
+  })
+
+  it('clamps BPMs and snaps numbers to the nearest option', () => {
+    const settings = readShareParams('?bpm=9999&target=0&inc=6&every=25s&over=7m&swing=64')!
+    expect(settings).toMatchObject({ startBpm: MAX_BPM, targetBpm: 1, intervalUnit: 'seconds' })
+    expect(settings).toMatchObject({ increment: 3, interval: 3, rampDuration: 2, swing: 3 })
+    expect(readShareParams('?every=9b')).toMatchObject({ intervalUnit: 'bars', barInterval: 3 })
+  })
+
+  it('falls back to the defaults for anything unreadable', () => {
+    const settings = readShareParams('?bpm=abc&inc=lots&every=often&sig=13/5&sub=1/7&mode=sideways&poly=9:8')!
+    expect(settings).toEqual(DEFAULT_SETTINGS)
+  })
+})
@@ -0,0 +1,107 @@
+import {
+  INCREMENTS,
+  SUBDIVISIONS,
+  BUMP_INTERVALS,
+  BAR_INTERVALS,
+  TEMPO_MODES,
+  SAWTOOTH_PATTERNS,
+  RAMP_DURATIONS,
+  GAP_PATTERNS,
+  POLYRHYTHMS,
+  SWING_AMOUNTS,
+  normalizeSettings,
+  type PracticeSettings,
+} from './settings'
+
+// Query parameters, by readable value rather than list index so links stay
+// meaningful if the option lists are reordered:
+//   ?bpm=80&inc=5&every=4b&sig=7/8+2%2B2%2B3&sub=1/8&mode=up&target=140&saw=3/1&acc=An.-n
+// An accelerando adds its ramp length and curve: &mode=accel&target=140&over=5m&curve=exp
+// Silent bars add &gap=2:2 (on:off) or &gap=25%, a cross-rhythm layer
+// &poly=3:2, and swung 8ths or 16ths &swing=66 (percent)
+const PARAMS = [
+  'bpm', 'inc', 'every', 'sig', 'sub', 'mode', 'target', 'saw', 'acc', 'over', 'curve', 'gap', 'poly', 'swing',
+] as const
+
+// Index of the option whose value is closest to `value`
+function nearestIndex(list: readonly { value: number }[], value: number): number {
+  let best = 0
+  for (let i = 1; i < list.length; i++) {
+    if (Math.abs(list[i].value - value) < Math.abs(list[best].value - value)) best = i
+  }
+  return best
+}
+
+const labelIndex = (list: readonly { label: string }[], label: string | null) =>
+  label === null ? undefined : list.findIndex((item) => item.label.toLowerCase() === label.toLowerCase())
+
+export function buildShareUrl(settings: PracticeSettings, base: string): string {
+  const url = new URL(base)
+  url.search = ''
+  const params = url.searchParams
+  const mode = TEMPO_MODES[settings.mode]
+  params.set('bpm', String(settings.startBpm))
+  params.set('inc', String(INCREMENTS[settings.increment].value))
+  params.set('every', settings.intervalUnit === 'bars'
+    ? `${BAR_INTERVALS[settings.barInterval].value}b`
+    : `${BUMP_INTERVALS[settings.interval].value}s`)
+  params.set('sig', settings.meter)
+  params.set('sub', SUBDIVISIONS[settings.subdiv].label)
+  params.set('mode', mode.label.toLowerCase())
+  if (mode.kind === 'sawtooth') {
+    params.set('saw', SAWTOOTH_PATTERNS[settings.pattern].label)
+  } else if (settings.targetBpm !== null) {
+    params.set('target', String(settings.targetBpm))
+  }
+  if (mode.kind === 'accelerando') {
+    params.set('over', `${RAMP_DURATIONS[settings.rampDuration].value}m`)
+    params.set('curve', settings.rampCurve === 'exponential' ? 'exp' : 'lin')
+  }
+  if (settings.accents !== '') params.set('acc', settings.accents)
+  if (settings.gaps !== 0) params.set('gap', GAP_PATTERNS[settings.gaps].label)
+  if (settings.poly !== 0) params.set('poly', POLYRHYTHMS[settings.poly].label)
+  if (settings.swing !== 0) params.set('swing', String(SWING_AMOUNTS[settings.swing].value))
+  return url.toString()
+}
+
+// Settings encoded in a shared link, or null when the URL carries none.
+// Numbers snap to the nearest available option and BPMs clamp to 1..MAX_BPM;
+// anything unreadable falls back to the default for that setting.
+export function readShareParams(search: string): PracticeSettings | null {
+  const params = new URLSearchParams(search)
+  if (!PARAMS.some((key) => params.has(key))) return null
+
+  const inc = Number(params.get('inc'))
+  const every = /^(\d+(?:\.\d+)?)\s*([sb]?)$/i.exec(params.get('every') ?? '')
+  const everyValue = every ? Number(every[1]) : NaN
+  const intervalUnit = every?.[2].toLowerCase() === 'b' ? 'bars' : 'seconds'
+  const swing = parseFloat(params.get('swing') ?? '')
+  const over = /^(\d+(?:\.\d+)?)\s*m?$/i.exec(params.get('over') ?? '')
+
+  return normalizeSettings({
+    startBpm: params.get('bpm'),
+    increment: params.has('inc') && Number.isFinite(inc) ? nearestIndex(INCREMENTS, inc) : undefined,
+    intervalUnit,
+    interval: intervalUnit === 'seconds' && every ? nearestIndex(BUMP_INTERVALS, everyValue) : undefined,
+    barInterval: intervalUnit === 'bars' && every ? nearestIndex(BAR_INTERVALS, everyValue) : undefined,
+    meter: params.get('sig'),
+    subdiv: labelIndex(SUBDIVISIONS, params.get('sub')),
+    mode: labelIndex(TEMPO_MODES, params.get('mode')),
+    targetBpm: params.get('target'),
+    pattern: labelIndex(SAWTOOTH_PATTERNS, params.get('saw')),
+    accents: params.get('acc') ?? undefined,
+    rampDuration: over ? nearestIndex(RAMP_DURATIONS, Number(over[1])) : undefined,
+    rampCurve: params.get('curve')?.toLowerCase().startsWith('exp') ? 'exponential' : 'linear',
+    gaps: labelIndex(GAP_PATTERNS, params.get('gap')),
+    poly: labelIndex(POLYRHYTHMS, params.get('poly')),
+    swing: Number.isFinite(swing) ? nearestIndex(SWING_AMOUNTS, swing) : undefined,
+  })
+}
+
+// Drop the settings from the address bar once applied, so a reload comes
+// back to whatever the player changed afterwards
+export function clearShareParams() {
+  const url = new URL(window.location.href)
+  for (const key of PARAMS) url.searchParams.delete(key)
+  window.history.replaceState(null, '', url.toString())
+}
@@ -0,0 +1,28 @@
+// Thin localStorage wrapper. Storage can be unavailable (private mode, quota,
+// disabled cookies); reads fall back and writes are dropped rather than thrown.
+const PREFIX = 'codybpm.'
+
+export function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key)
+    return raw === null ? fallback : JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function writeJSON(key: string, value: unknown) {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value))
+  } catch {
+    // Ignore — persistence is best-effort
+  }
+}
+
+export function removeKey(key: string) {
+  try {
+    localStorage.removeItem(PREFIX + key)
+  } catch {
+    // Ignore — persistence is best-effort
+  }
+}
@@ -0,0 +1,81 @@
+// Service worker for offline use. The build fills in the precache list (every
+// emitted asset plus the public files) and a version that changes whenever any
+// of them do, so a new deploy installs a fresh cache and drops the old one.
+// Not loaded in dev; see the precache plugin in vite.config.ts.
+
+// The app compiles against the DOM lib, so declare the few worker-scope
+// types used here rather than pulling in lib.webworker
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void
+}
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request
+  respondWith(response: Promise<Response>): void
+}
+declare const self: {
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void
+  skipWaiting(): Promise<void>
+  clients: { claim(): Promise<void> }
+}
+declare const __PRECACHE_MANIFEST__: string[]
+declare const __PRECACHE_VERSION__: string
+
+const PREFIX = 'codybpm-'
+const APP_CACHE = `${PREFIX}${__PRECACHE_VERSION__}`
+// Web fonts from Google, cached as they are first fetched online
+const FONT_CACHE = `${PREFIX}fonts`
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then((cache) => cache.addAll(__PRECACHE_MANIFEST__))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys
+        .filter((key) => key.startsWith(PREFIX) && key !== APP_CACHE && key !== FONT_CACHE)
+        .map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Serve a font from the cache and refresh it in the background when online
+async function fontResponse(request: Request): Promise<Response> {
+  const cache = await caches.open(FONT_CACHE)
+  const cached = await cache.match(request)
+  const network = fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone())
+    return response
+  })
+  if (!cached) return network
+  network.catch(() => {})
+  return cached
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(fontResponse(request))
+    return
+  }
+  if (url.origin !== location.origin) return
+
+  // Cache first: practice rooms with a weak signal would otherwise hang on
+  // the network. Pages, including shared links with settings in the query,
+  // all get the app shell.
+  event.respondWith(
+    (request.mode === 'navigate'
+      ? caches.match('./', { cacheName: APP_CACHE })
+      : caches.match(request, { cacheName: APP_CACHE }))
+      .then((cached) => cached ?? fetch(request)),
+  )
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { addTap, tapBpm } from './tapTempo'
+
+const tapAll = (times: number[]) => times.reduce<number[]>((taps, t) => addTap(taps, t), [])
+
+describe('tap tempo', () => {
+  it('needs two taps, then averages their spacing', () => {
+    expect(tapBpm(tapAll([1000]))).toBeNull()
+    expect(tapBpm(tapAll([1000, 1500]))).toBe(120)
+    expect(tapBpm(tapAll([0, 480, 1000, 1500, 2020]))).toBeCloseTo(60000 / 505, 9)
+  })
+
+  it('drops stray taps far off the median spacing', () => {
+    // A double tap (50ms) and a missed tap (1000ms) among steady 500ms taps
+    expect(tapBpm(tapAll([0, 500, 550, 1050, 1550, 2550, 3050]))).toBe(120)
+  })
+
+  it('starts a new count after a pause and keeps only the latest taps', () => {
+    expect(tapAll([0, 500, 4000])).toEqual([4000])
+    expect(tapAll([0, 500, 500])).toEqual([500])
+    const taps = tapAll(Array.from({ length: 12 }, (_, i) => i * 400))
+    expect(taps).toHaveLength(8)
+    expect(taps[0]).toBe(1600)
+    expect(tapBpm(taps)).toBe(150)
+  })
+})
@@ -0,0 +1,23 @@
+// Tap tempo: a BPM from the spacing of recent taps. Times are in ms.
+const MAX_TAPS = 8
+const RESET_AFTER = 3000 // a longer gap starts a new count (slowest tap ~20 BPM)
+const OUTLIER_TOLERANCE = 0.3 // intervals this far off the median are dropped
+
+// Tap history with `now` added, restarted after a pause
+export function addTap(taps: readonly number[], now: number): number[] {
+  const last = taps[taps.length - 1]
+  if (last === undefined || now - last > RESET_AFTER || now <= last) return [now]
+  return [...taps, now].slice(-MAX_TAPS)
+}
+
+// Average of the tap intervals, ignoring stray early or late taps; null
+// until there are two taps
+export function tapBpm(taps: readonly number[]): number | null {
+  if (taps.length < 2) return null
+  const intervals = taps.slice(1).map((t, i) => t - taps[i])
+  const sorted = [...intervals].sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]
+  const kept = intervals.filter((interval) => Math.abs(interval - median) <= median * OUTLIER_TOLERANCE)
+  const average = kept.reduce((sum, interval) => sum + interval, 0) / kept.length
+  return 60000 / average
+}
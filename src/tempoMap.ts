@@ -0,0 +1,9 @@
+import type { SessionTimeline } from './engine/timeline'
+
+// Tempo map as CSV, one row per tempo change: seconds from the start of the
+// file, the bar it lands on (1-based), and the new BPM
+export function tempoMapCsv(timeline: SessionTimeline): string {
+  const rows = timeline.tempos.map(({ time, bar, bpm }) =>
+    [time.toFixed(3), bar + 1, Number.isInteger(bpm) ? bpm : bpm.toFixed(2)].join(','))
+  return ['time_s,bar,bpm', ...rows].join('\n') + '\n'
+}
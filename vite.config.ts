@@ -1,7 +1,53 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Builds src/sw.ts as a standalone sw.js at the site root and fills in its
+// precache list: every file the build emits plus the public files, with the
+// page itself as './'. The version hashes their contents.
+function precacheServiceWorker(): Plugin {
+  let publicDir = ''
+  return {
+    name: 'codybpm-precache',
+    apply: 'build',
+    enforce: 'post',
+    config: () => ({
+      build: {
+        rollupOptions: {
+          input: { main: 'index.html', sw: 'src/sw.ts' },
+          output: {
+            entryFileNames: (chunk) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+          },
+        },
+      },
+    }),
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const files: string[] = []
+      for (const [fileName, output] of Object.entries(bundle)) {
+        if (fileName === 'sw.js' || fileName.endsWith('.map')) continue
+        files.push(fileName === 'index.html' ? './' : fileName)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      }
+      for (const fileName of publicDir ? readdirSync(publicDir) : []) {
+        files.push(fileName)
+        hash.update(readFileSync(join(publicDir, fileName)))
+      }
+      const sw = bundle['sw.js']
+      if (sw?.type !== 'chunk') return
+      sw.code = sw.code
+        .replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(files.sort()))
+        .replaceAll('__PRECACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
 })